@@ -1,126 +1,360 @@
+import { PcmChunker, Resampler, arrayBufferToBase64, base64ToArrayBuffer, float32ToInt16, int16ToFloat32 } from "./pcm";
+import { SessionRecorder } from "./session-recording";
+
 /**
  * Handles audio recording and playback for Gemini Live API.
- * - Records at 16kHz (or requested rate) PCM 16-bit.
- * - Plays back PCM 16-bit chunks.
+ * - Captures at the device rate and resamples to 16kHz PCM 16-bit, sent in 20-100ms chunks.
+ * - Only streams speech: an energy gate (or push-to-talk) runs in the recorder worklet.
+ * - Input device and processing are configurable; tracks are released on stop.
+ * - Optionally copies both directions into a SessionRecorder.
+ * - Plays back PCM 16-bit chunks; scheduled chunks can be flushed for barge-in.
  */
+
+/** "vad" streams whenever speech is detected; "ptt" only while the talk key is held. */
+export type InputMode = "vad" | "ptt";
+
+export const INPUT_MODE_LABELS: Record<InputMode, string> = {
+    vad: "Auto",
+    ptt: "Push to talk"
+};
+
+/** Rate the Live API expects for input audio. */
+export const INPUT_SAMPLE_RATE = 16000;
+/** Rate of the model's audio output. */
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+export interface InputSettings {
+    /** Empty for the system default microphone. */
+    deviceId: string;
+    echoCancellation: boolean;
+    noiseSuppression: boolean;
+}
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+    deviceId: "",
+    echoCancellation: true,
+    noiseSuppression: true
+};
+
+export async function listInputDevices() {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(d => d.kind === "audioinput" && d.deviceId !== "default");
+}
+
+export interface RecorderOptions {
+    /** Minimum RMS treated as speech; the gate also adapts to the room's noise floor. */
+    threshold: number;
+    /** Audio kept from just before the gate opens, so first syllables are not clipped. */
+    preRollMs: number;
+    /** How long the gate stays open after the level drops. */
+    hangoverMs: number;
+    /** Interval between level meter updates. */
+    levelIntervalMs: number;
+    /** Audio per WebSocket message; clamped to 20-100ms. */
+    chunkMs: number;
+}
+
+export const DEFAULT_RECORDER_OPTIONS: RecorderOptions = {
+    threshold: 0.015,
+    preRollMs: 300,
+    hangoverMs: 700,
+    levelIntervalMs: 50,
+    chunkMs: 40
+};
+
+// Runs on the audio thread. Frames are 128 samples at the context rate.
+const RECORDER_WORKLET = `
+class RecorderProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        const o = options.processorOptions;
+        const frames = (ms) => Math.max(1, Math.ceil((ms / 1000) * sampleRate / 128));
+        this.mode = o.mode;
+        this.threshold = o.threshold;
+        this.preRollFrames = frames(o.preRollMs);
+        this.hangoverFrames = frames(o.hangoverMs);
+        this.levelFrames = frames(o.levelIntervalMs);
+        this.talking = false;
+        this.muted = false;
+        this.open = false;
+        this.quietFrames = 0;
+        this.noiseFloor = 0;
+        this.preRoll = [];
+        this.peak = 0;
+        this.frameCount = 0;
+        this.port.onmessage = (e) => {
+            if (e.data.mode) this.mode = e.data.mode;
+            if ("talking" in e.data) this.talking = e.data.talking;
+            if ("muted" in e.data) this.muted = e.data.muted;
+        };
+    }
+
+    isSpeech(rms) {
+        if (this.muted) return false;
+        if (this.mode === "ptt") return this.talking;
+        if (rms > Math.max(this.threshold, this.noiseFloor * 3)) {
+            this.quietFrames = 0;
+            return true;
+        }
+        // Only learn the noise floor from audio we are not streaming
+        if (!this.open) this.noiseFloor = this.noiseFloor * 0.99 + rms * 0.01;
+        this.quietFrames++;
+        return this.open && this.quietFrames < this.hangoverFrames;
+    }
+
+    process(inputs) {
+        const input = inputs[0];
+        if (input.length === 0) return true;
+        const channel = input[0];
+
+        let sum = 0;
+        for (let i = 0; i < channel.length; i++) sum += channel[i] * channel[i];
+        const rms = Math.sqrt(sum / channel.length);
+        const speech = this.isSpeech(rms);
+
+        if (speech) {
+            if (!this.open) {
+                this.open = true;
+                this.preRoll.forEach(frame => this.port.postMessage({ type: "audio", samples: frame }));
+                this.preRoll = [];
+            }
+            this.port.postMessage({ type: "audio", samples: channel });
+        } else {
+            if (this.open) {
+                this.open = false;
+                this.port.postMessage({ type: "end" });
+            }
+            this.preRoll.push(channel.slice());
+            if (this.preRoll.length > this.preRollFrames) this.preRoll.shift();
+        }
+
+        this.peak = Math.max(this.peak, rms);
+        if (++this.frameCount >= this.levelFrames) {
+            this.port.postMessage({ type: "level", level: this.peak, speech: this.open });
+            this.peak = 0;
+            this.frameCount = 0;
+        }
+        return true;
+    }
+}
+registerProcessor('recorder-processor', RecorderProcessor);
+`;
+
 export class AudioStreamer {
-    context: AudioContext;
+    /** Playback runs at the model's rate; capture gets its own context at the device's native rate. */
+    outputContext: AudioContext;
+    inputContext: AudioContext | null = null;
     worklet: AudioWorkletNode | null = null;
     source: MediaStreamAudioSourceNode | null = null;
+    stream: MediaStream | null = null;
     isPlaying = false;
     audioQueue: Int16Array[] = [];
     scheduledTime = 0;
     gainNode: GainNode;
+    /** Called when model audio starts or stops coming out of the speakers. */
+    onPlaybackChange: ((playing: boolean) => void) | null = null;
+    /** Input level (RMS of the loudest frame) and whether speech is being streamed. */
+    onLevel: ((level: number, speech: boolean) => void) | null = null;
+    /** Called when the gate closes, i.e. the user stopped talking. */
+    onSpeechEnd: (() => void) | null = null;
+    inputMode: InputMode = "vad";
+    talking = false;
+    muted = false;
+    inputSettings: InputSettings = DEFAULT_INPUT_SETTINGS;
+    recorderOptions: RecorderOptions = DEFAULT_RECORDER_OPTIONS;
+    recorder: SessionRecorder | null = null;
+    private sources = new Set<AudioBufferSourceNode>();
 
-    constructor(public sampleRate = 24000) {
-        this.context = new AudioContext({ sampleRate });
-        this.gainNode = this.context.createGain();
-        this.gainNode.connect(this.context.destination);
+    constructor(public sampleRate = OUTPUT_SAMPLE_RATE) {
+        this.outputContext = new AudioContext({ sampleRate });
+        this.gainNode = this.outputContext.createGain();
+        this.gainNode.connect(this.outputContext.destination);
     }
 
     async startRecording(onData: (b64: string) => void) {
-        await this.context.resume();
+        await this.outputContext.resume();
+
+        // No forced rate: browsers often ignore the getUserMedia hint, so we resample ourselves
+        const context = new AudioContext();
+        this.inputContext = context;
         
-        // Add recorder worklet
-        // Note: In a real app, this worklet code should be in a separate file or blob
-        const workletCode = `
-        class RecorderProcessor extends AudioWorkletProcessor {
-            process(inputs, outputs, parameters) {
-                const input = inputs[0];
-                if (input.length > 0) {
-                    const channel = input[0];
-                    this.port.postMessage(channel);
-                }
-                return true;
-            }
+        let stream: MediaStream;
+        try {
+            // Add recorder worklet
+            const blob = new Blob([RECORDER_WORKLET], { type: "application/javascript" });
+            await context.audioWorklet.addModule(URL.createObjectURL(blob));
+            stream = await this.openStream();
+        } catch (e) {
+            // No microphone (or no permission): release the context so the next attempt starts clean
+            if (this.inputContext === context) this.inputContext = null;
+            if (context.state !== "closed") context.close();
+            throw e;
+        }
+        // Recording was stopped while we were waiting
+        if (this.inputContext !== context) {
+            stream.getTracks().forEach(t => t.stop());
+            return;
         }
-        registerProcessor('recorder-processor', RecorderProcessor);
-        `;
-        const blob = new Blob([workletCode], { type: "application/javascript" });
-        await this.context.audioWorklet.addModule(URL.createObjectURL(blob));
+        this.stream = stream;
+        stream.getAudioTracks().forEach(t => { t.enabled = !this.muted; });
 
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: {
-            channelCount: 1,
-            sampleRate: this.sampleRate,
-        }});
+        const resampler = new Resampler(context.sampleRate, INPUT_SAMPLE_RATE);
+        const chunkMs = Math.min(100, Math.max(20, this.recorderOptions.chunkMs));
+        const chunker = new PcmChunker(Math.round(INPUT_SAMPLE_RATE * chunkMs / 1000), (chunk) => {
+            this.recorder?.addInput(chunk, INPUT_SAMPLE_RATE);
+            onData(arrayBufferToBase64(float32ToInt16(chunk).buffer));
+        });
 
-        this.source = this.context.createMediaStreamSource(stream);
-        this.worklet = new AudioWorkletNode(this.context, 'recorder-processor');
+        this.source = context.createMediaStreamSource(stream);
+        this.worklet = new AudioWorkletNode(context, 'recorder-processor', {
+            processorOptions: { ...this.recorderOptions, mode: this.inputMode }
+        });
+        this.worklet.port.postMessage({ talking: this.talking, muted: this.muted });
 
         this.worklet.port.onmessage = (e) => {
-            const float32 = e.data;
-            const int16 = this.float32ToInt16(float32);
-            const b64 = this.arrayBufferToBase64(int16.buffer);
-            onData(b64);
+            const msg = e.data;
+            if (msg.type === "audio") {
+                chunker.push(resampler.process(msg.samples));
+            } else if (msg.type === "end") {
+                // Send the tail of the utterance before announcing its end
+                chunker.flush();
+                resampler.reset();
+                this.onSpeechEnd?.();
+            } else if (msg.type === "level") {
+                this.onLevel?.(msg.level, msg.speech);
+            }
         };
 
         this.source.connect(this.worklet);
-        this.worklet.connect(this.context.destination); // Keep alive
+        this.worklet.connect(context.destination); // Keep alive
+    }
+
+    private async openStream() {
+        const { deviceId, echoCancellation, noiseSuppression } = this.inputSettings;
+        const constraints = { channelCount: 1, echoCancellation, noiseSuppression };
+        if (!deviceId) return navigator.mediaDevices.getUserMedia({ audio: constraints });
+        try {
+            return await navigator.mediaDevices.getUserMedia({ audio: { ...constraints, deviceId: { exact: deviceId } } });
+        } catch (e: any) {
+            // The chosen device was unplugged; fall back to the default one
+            if (e?.name !== "OverconstrainedError" && e?.name !== "NotFoundError") throw e;
+            return navigator.mediaDevices.getUserMedia({ audio: constraints });
+        }
+    }
+
+    /**
+     * Applies new input settings, swapping the live stream in place if recording.
+     */
+    async setInputSettings(settings: InputSettings) {
+        this.inputSettings = settings;
+        const context = this.inputContext;
+        if (!context || !this.worklet) return;
+
+        const stream = await this.openStream();
+        if (this.inputContext !== context || !this.worklet) {
+            stream.getTracks().forEach(t => t.stop());
+            return;
+        }
+        this.source?.disconnect();
+        this.stream?.getTracks().forEach(t => t.stop());
+        stream.getAudioTracks().forEach(t => { t.enabled = !this.muted; });
+        this.stream = stream;
+        this.source = context.createMediaStreamSource(stream);
+        this.source.connect(this.worklet);
+    }
+
+    /**
+     * Stops sending audio without ending the session.
+     */
+    setMuted(muted: boolean) {
+        this.muted = muted;
+        this.stream?.getAudioTracks().forEach(t => { t.enabled = !muted; });
+        this.worklet?.port.postMessage({ muted });
+    }
+
+    /** Output volume, 0 to 1. */
+    setVolume(volume: number) {
+        this.gainNode.gain.setTargetAtTime(volume, this.outputContext.currentTime, 0.02);
     }
 
     stopRecording() {
         this.source?.disconnect();
         this.worklet?.disconnect();
+        this.inputContext?.close();
+        // Releasing the tracks turns off the browser's microphone indicator
+        this.stream?.getTracks().forEach(t => t.stop());
+        this.stream = null;
         this.source = null;
         this.worklet = null;
+        this.inputContext = null;
+        this.onLevel?.(0, false);
+    }
+
+    setInputMode(mode: InputMode) {
+        this.inputMode = mode;
+        this.talking = false;
+        this.worklet?.port.postMessage({ mode, talking: false });
+    }
+
+    /**
+     * Push-to-talk key state; ignored in "vad" mode.
+     */
+    setTalking(talking: boolean) {
+        this.talking = talking;
+        this.worklet?.port.postMessage({ talking });
     }
 
     playChunk(b64: string) {
-        const arrayBuffer = this.base64ToArrayBuffer(b64);
+        const arrayBuffer = base64ToArrayBuffer(b64);
         const int16 = new Int16Array(arrayBuffer);
-        const float32 = this.int16ToFloat32(int16);
+        const float32 = int16ToFloat32(int16);
 
-        const buffer = this.context.createBuffer(1, float32.length, this.sampleRate);
+        const buffer = this.outputContext.createBuffer(1, float32.length, this.sampleRate);
         buffer.copyToChannel(float32, 0);
 
-        const source = this.context.createBufferSource();
+        const source = this.outputContext.createBufferSource();
         source.buffer = buffer;
         source.connect(this.gainNode);
 
         // Simple scheduling to prevent overlaps/gaps
-        const currentTime = this.context.currentTime;
+        const currentTime = this.outputContext.currentTime;
         if (this.scheduledTime < currentTime) {
             this.scheduledTime = currentTime;
         }
+        this.recorder?.addOutput(float32, this.sampleRate, this.scheduledTime - currentTime);
         source.start(this.scheduledTime);
         this.scheduledTime += buffer.duration;
-    }
 
-    // --- Helpers ---
-
-    float32ToInt16(float32: Float32Array) {
-        const int16 = new Int16Array(float32.length);
-        for (let i = 0; i < float32.length; i++) {
-            const s = Math.max(-1, Math.min(1, float32[i]));
-            int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-        }
-        return int16;
-    }
-
-    int16ToFloat32(int16: Int16Array) {
-        const float32 = new Float32Array(int16.length);
-        for (let i = 0; i < int16.length; i++) {
-            float32[i] = int16[i] / 32768.0;
-        }
-        return float32;
+        source.onended = () => {
+            this.sources.delete(source);
+            if (this.sources.size === 0) this.setPlaying(false);
+        };
+        this.sources.add(source);
+        this.setPlaying(true);
     }
 
-    arrayBufferToBase64(buffer: ArrayBuffer) {
-        let binary = '';
-        const bytes = new Uint8Array(buffer);
-        for (let i = 0; i < bytes.byteLength; i++) {
-            binary += String.fromCharCode(bytes[i]);
-        }
-        return btoa(binary);
+    /**
+     * Drops everything queued for playback, e.g. when the user interrupts the model.
+     */
+    flushPlayback() {
+        this.sources.forEach(source => {
+            source.onended = null;
+            try {
+                source.stop();
+            } catch {
+                // Already stopped
+            }
+            source.disconnect();
+        });
+        this.sources.clear();
+        this.scheduledTime = 0;
+        this.recorder?.cutOutput();
+        this.setPlaying(false);
     }
 
-    base64ToArrayBuffer(base64: string) {
-        const binaryString = atob(base64);
-        const len = binaryString.length;
-        const bytes = new Uint8Array(len);
-        for (let i = 0; i < len; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
-        }
-        return bytes.buffer;
+    private setPlaying(playing: boolean) {
+        if (this.isPlaying === playing) return;
+        this.isPlaying = playing;
+        this.onPlaybackChange?.(playing);
     }
 }
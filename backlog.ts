@@ -0,0 +1,202 @@
+import { DevSpecTransport } from "./dev-spec";
+
+/**
+ * Turns the finished brief into a tracker backlog: epics, user stories with
+ * acceptance criteria, and open questions.
+ * - Generated through the same text transport as the technical spec.
+ * - The model answers in JSON, which is validated before anyone edits it.
+ * - Formatters write GitHub Issues JSON, Jira CSV and Linear CSV.
+ */
+
+export interface Story {
+    title: string;
+    /** Usually "As a ..., I want ..., so that ...". */
+    description: string;
+    acceptanceCriteria: string[];
+}
+
+export interface Epic {
+    title: string;
+    description: string;
+    stories: Story[];
+}
+
+export interface Backlog {
+    epics: Epic[];
+    openQuestions: string[];
+}
+
+export type BacklogFormat = "github" | "jira" | "linear";
+
+export const BACKLOG_FORMATS: Record<BacklogFormat, { label: string, file: string, type: string }> = {
+    github: { label: "GitHub Issues", file: "backlog.github.json", type: "application/json" },
+    jira: { label: "Jira CSV", file: "backlog.jira.csv", type: "text/csv" },
+    linear: { label: "Linear CSV", file: "backlog.linear.csv", type: "text/csv" }
+};
+
+export const BACKLOG_SYSTEM = `
+You are a senior product owner. You turn an agreed product design brief into a delivery backlog.
+Rules:
+1. Group work into 3-8 epics that follow the brief's goals and scope. Do not invent features the client did not ask for.
+2. Each epic has 2-8 user stories. Story descriptions use "As a <user>, I want <capability>, so that <benefit>."
+3. Every story has 2-5 testable acceptance criteria.
+4. List unresolved decisions and unknowns as open questions.
+5. Reply with JSON only, no markdown fences, in exactly this shape:
+{"epics":[{"title":"","description":"","stories":[{"title":"","description":"","acceptanceCriteria":[""]}]}],"openQuestions":[""]}
+`;
+
+export function buildBacklogPrompt(brief: string, techSpec: string | null, openQuestions: string[] = []) {
+    return [
+        "## Design Brief",
+        brief.trim(),
+        "",
+        "## Technical Architecture",
+        techSpec?.trim() || "(not generated)",
+        "",
+        "## Questions Still Open With The Client",
+        openQuestions.length ? openQuestions.map(q => `- ${q}`).join("\n") : "(none)",
+        "",
+        "Write the backlog for this brief."
+    ].join("\n");
+}
+
+const cleanList = (v: unknown) => Array.isArray(v) ? v.filter((x): x is string => typeof x === "string" && !!x.trim()).map(x => x.trim()) : [];
+
+/**
+ * Validates a backlog from model output. Throws with a readable message on bad input.
+ */
+export function parseBacklog(text: string): Backlog {
+    // Models sometimes wrap JSON in a fence despite being told not to
+    const json = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("Backlog generation did not return valid JSON.");
+    }
+    if (!Array.isArray(data?.epics)) throw new Error(`Backlog is missing "epics".`);
+
+    const epics: Epic[] = data.epics
+        .filter((e: any) => typeof e?.title === "string" && e.title.trim())
+        .map((e: any) => ({
+            title: e.title.trim(),
+            description: typeof e.description === "string" ? e.description.trim() : "",
+            stories: (Array.isArray(e.stories) ? e.stories : [])
+                .filter((s: any) => typeof s?.title === "string" && s.title.trim())
+                .map((s: any) => ({
+                    title: s.title.trim(),
+                    description: typeof s.description === "string" ? s.description.trim() : "",
+                    acceptanceCriteria: cleanList(s.acceptanceCriteria)
+                }))
+        }));
+    if (!epics.length) throw new Error("Backlog generation returned no epics.");
+
+    return { epics, openQuestions: cleanList(data.openQuestions) };
+}
+
+export async function generateBacklog(transport: DevSpecTransport, brief: string, techSpec: string | null, openQuestions: string[] = []) {
+    const text = await transport.generate(buildBacklogPrompt(brief, techSpec, openQuestions), BACKLOG_SYSTEM);
+    return parseBacklog(text);
+}
+
+// --- Formats ---
+
+const storyMarkdown = (story: Story, epic: Epic) => [
+    story.description,
+    "",
+    "### Acceptance criteria",
+    ...(story.acceptanceCriteria.length ? story.acceptanceCriteria.map(c => `- [ ] ${c}`) : ["- [ ] _To be defined_"]),
+    "",
+    `Epic: ${epic.title}`
+].join("\n").trim();
+
+/**
+ * Issue payloads for the GitHub REST API (POST /repos/{owner}/{repo}/issues),
+ * one per epic, story and open question.
+ */
+export function toGitHubIssues(backlog: Backlog) {
+    const issues = backlog.epics.flatMap(epic => [
+        {
+            title: `[Epic] ${epic.title}`,
+            body: [epic.description, "", "### Stories", ...epic.stories.map(s => `- [ ] ${s.title}`)].join("\n").trim(),
+            labels: ["epic"]
+        },
+        ...epic.stories.map(story => ({ title: story.title, body: storyMarkdown(story, epic), labels: ["story"] }))
+    ]);
+    const questions = backlog.openQuestions.map(q => ({ title: q, body: "Open question from the discovery session.", labels: ["question"] }));
+    return JSON.stringify([...issues, ...questions], null, 2);
+}
+
+// Spreadsheets run cells starting with these as formulas; titles come from the transcript, so they are defused
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string, defuse: boolean) => {
+    const v = defuse && FORMULA_START.test(value) ? `'${value}` : value;
+    return /[",\n\r]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+};
+
+/**
+ * CSV text. `markupColumns` are imported by the tracker as markdown or wiki
+ * markup, where a leading "-" starts a list, so they are left as written.
+ */
+export const toCsv = (rows: string[][], markupColumns: number[] = []) =>
+    rows.map(r => r.map((v, i) => csvCell(v, !markupColumns.includes(i))).join(",")).join("\r\n") + "\r\n";
+
+/**
+ * Jira Cloud CSV import. "Issue Id" / "Parent Id" link stories to their epic;
+ * acceptance criteria use Jira wiki markup.
+ */
+export function toJiraCsv(backlog: Backlog) {
+    const rows: string[][] = [["Issue Id", "Parent Id", "Issue Type", "Summary", "Description", "Labels"]];
+    let id = 0;
+    backlog.epics.forEach(epic => {
+        const epicId = String(++id);
+        rows.push([epicId, "", "Epic", epic.title, epic.description, "specbridge"]);
+        epic.stories.forEach(story => {
+            const criteria = story.acceptanceCriteria.map(c => `* ${c}`).join("\n");
+            const description = [story.description, criteria && `h3. Acceptance criteria\n${criteria}`].filter(Boolean).join("\n\n");
+            rows.push([String(++id), epicId, "Story", story.title, description, "specbridge"]);
+        });
+    });
+    backlog.openQuestions.forEach(q => rows.push([String(++id), "", "Task", `Open question: ${q}`, "Open question from the discovery session.", "specbridge"]));
+    // Description is wiki markup
+    return toCsv(rows, [4]);
+}
+
+/**
+ * Linear CSV import. Linear has no parent column in CSV, so every issue is
+ * labelled with its epic and the epic itself is labelled "Epic".
+ */
+export function toLinearCsv(backlog: Backlog) {
+    const rows: string[][] = [["Title", "Description", "Status", "Labels"]];
+    backlog.epics.forEach(epic => {
+        rows.push([epic.title, epic.description, "Backlog", "Epic"]);
+        epic.stories.forEach(story => rows.push([story.title, storyMarkdown(story, epic), "Backlog", epic.title]));
+    });
+    backlog.openQuestions.forEach(q => rows.push([q, "Open question from the discovery session.", "Backlog", "Question"]));
+    // Description is markdown
+    return toCsv(rows, [1]);
+}
+
+/**
+ * Drops blank entries left behind by editing (e.g. empty lines in a criteria list).
+ */
+export function tidyBacklog(backlog: Backlog): Backlog {
+    return {
+        epics: backlog.epics
+            .filter(e => e.title.trim())
+            .map(e => ({
+                title: e.title.trim(),
+                description: e.description.trim(),
+                stories: e.stories
+                    .filter(s => s.title.trim())
+                    .map(s => ({ title: s.title.trim(), description: s.description.trim(), acceptanceCriteria: cleanList(s.acceptanceCriteria) }))
+            })),
+        openQuestions: cleanList(backlog.openQuestions)
+    };
+}
+
+export function formatBacklog(backlog: Backlog, format: BacklogFormat) {
+    const tidy = tidyBacklog(backlog);
+    return format === "github" ? toGitHubIssues(tidy) : format === "jira" ? toJiraCsv(tidy) : toLinearCsv(tidy);
+}
@@ -0,0 +1,421 @@
+import { Question, Turn } from "./types";
+import { titleFromSpec } from "./session-store";
+import { formatQuestionsMarkdown, formatTranscriptMarkdown } from "./transcript";
+
+/**
+ * Client-facing deliverables rendered from the brief.
+ * - One document model (cover + markdown sections) feeds every format.
+ * - Markdown is reduced to a small block model that HTML, DOCX and PDF all understand.
+ * - DOCX and PDF writers are loaded on demand; HTML is a standalone file with inline styles.
+ */
+
+export type ExportFormat = "pdf" | "docx" | "html";
+
+export type ExportPart = "brief" | "techSpec" | "transcript" | "qa";
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+    pdf: "PDF",
+    docx: "Word (DOCX)",
+    html: "HTML"
+};
+
+export const EXPORT_PART_LABELS: Record<ExportPart, string> = {
+    brief: "Design brief",
+    techSpec: "Technical spec",
+    transcript: "Transcript",
+    qa: "Questions & answers"
+};
+
+export interface ExportTheme {
+    displayFont: string;
+    bodyFont: string;
+    /** Text colour. */
+    ink: string;
+    paper: string;
+    accent: string;
+    muted: string;
+}
+
+// The app's palette on white paper, so deliverables print cleanly
+export const DEFAULT_THEME: ExportTheme = {
+    displayFont: "Syne",
+    bodyFont: "Manrope",
+    ink: "#050505",
+    paper: "#FFFFFF",
+    accent: "#FF3300",
+    muted: "#888888"
+};
+
+export const DARK_THEME: ExportTheme = {
+    ...DEFAULT_THEME,
+    ink: "#E5E5E5",
+    paper: "#050505"
+};
+
+export interface ExportImage {
+    /** data: URL of a PNG or JPEG. */
+    dataUrl: string;
+    width: number;
+    height: number;
+}
+
+export type ExportLogo = ExportImage;
+
+export interface ExportCover {
+    title: string;
+    clientName: string;
+    agencyName: string;
+    date: string;
+    logo: ExportLogo | null;
+}
+
+export interface ExportSection {
+    part: ExportPart;
+    markdown: string;
+}
+
+export interface ExportDocument {
+    cover: ExportCover;
+    sections: ExportSection[];
+    theme: ExportTheme;
+    /** Images the markdown links to, by URL (e.g. moodboard references). Other images are left out. */
+    images: Record<string, ExportImage>;
+}
+
+export interface ExportInput {
+    spec: string;
+    devSpec?: string | null;
+    history: Turn[];
+    questions: Question[];
+    parts: ExportPart[];
+    clientName: string;
+    agencyName: string;
+    logo: ExportLogo | null;
+    theme: ExportTheme;
+    images?: Record<string, ExportImage>;
+}
+
+export function buildExportDocument(input: ExportInput): ExportDocument {
+    const markdownFor: Record<ExportPart, () => string | null | undefined> = {
+        brief: () => input.spec,
+        techSpec: () => input.devSpec,
+        transcript: () => formatTranscriptMarkdown(input.history, input.questions),
+        qa: () => formatQuestionsMarkdown(input.questions)
+    };
+
+    const sections = (Object.keys(EXPORT_PART_LABELS) as ExportPart[])
+        .filter(part => input.parts.includes(part))
+        .map(part => ({ part, markdown: markdownFor[part]()?.trim() ?? "" }))
+        .filter(s => s.markdown);
+
+    return {
+        cover: {
+            title: titleFromSpec(input.spec),
+            clientName: input.clientName.trim(),
+            agencyName: input.agencyName.trim(),
+            date: new Date().toLocaleDateString(undefined, { dateStyle: "long" }),
+            logo: input.logo
+        },
+        sections,
+        theme: input.theme,
+        images: input.images ?? {}
+    };
+}
+
+// --- Preferences ---
+
+const STORAGE_KEY = "specbridge.export";
+
+/** Agency branding and last choices, kept between exports. */
+export interface ExportPrefs {
+    format: ExportFormat;
+    parts: ExportPart[];
+    agencyName: string;
+    logo: ExportLogo | null;
+    dark: boolean;
+    accent: string;
+}
+
+export const DEFAULT_EXPORT_PREFS: ExportPrefs = {
+    format: "pdf",
+    parts: ["brief", "qa"],
+    agencyName: "",
+    logo: null,
+    dark: false,
+    accent: DEFAULT_THEME.accent
+};
+
+export const themeFromPrefs = (prefs: ExportPrefs): ExportTheme => ({ ...(prefs.dark ? DARK_THEME : DEFAULT_THEME), accent: prefs.accent });
+
+export function loadExportPrefs(): ExportPrefs {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? { ...DEFAULT_EXPORT_PREFS, ...JSON.parse(raw) } : DEFAULT_EXPORT_PREFS;
+    } catch (e) {
+        console.error("Failed to load export preferences", e);
+        return DEFAULT_EXPORT_PREFS;
+    }
+}
+
+export function saveExportPrefs(prefs: ExportPrefs) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+    } catch (e) {
+        // A large logo can exceed the storage quota; the export itself still works
+        console.error("Failed to save export preferences", e);
+    }
+}
+
+// --- Markdown Blocks ---
+
+export interface Run {
+    text: string;
+    bold?: boolean;
+    italic?: boolean;
+    code?: boolean;
+}
+
+export type Block =
+    | { type: "heading"; level: number; runs: Run[] }
+    | { type: "paragraph"; runs: Run[] }
+    | { type: "list"; ordered: boolean; items: Run[][] }
+    | { type: "quote"; runs: Run[] }
+    | { type: "code"; text: string }
+    | { type: "table"; header: Run[][]; rows: Run[][][] }
+    | { type: "image"; src: string; alt: string }
+    | { type: "rule" };
+
+const INLINE = /(\*\*[^*]+\*\*|__[^_]+__|`[^`]+`|\*[^*\s][^*]*\*|_[^_\s][^_]*_|\[[^\]]+\]\([^)]*\))/g;
+
+/**
+ * Inline markdown as styled runs. Links keep their text only.
+ */
+export function parseInline(text: string): Run[] {
+    const runs: Run[] = [];
+    for (const token of text.split(INLINE)) {
+        if (!token) continue;
+        if (/^(\*\*|__)/.test(token) && token.length > 4) runs.push({ text: token.slice(2, -2), bold: true });
+        else if (token.startsWith("`") && token.length > 2) runs.push({ text: token.slice(1, -1), code: true });
+        else if (/^[*_]/.test(token) && token.length > 2) runs.push({ text: token.slice(1, -1), italic: true });
+        else if (token.startsWith("[")) runs.push({ text: token.slice(1, token.indexOf("]")) });
+        else runs.push({ text: token });
+    }
+    return runs;
+}
+
+export const plainText = (runs: Run[]) => runs.map(r => r.text).join("");
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const IMAGE = /^\s*!\[([^\]]*)\]\(([^)\s]+)\)\s*$/;
+
+const tableCells = (line: string) => line.trim().replace(/^\||\|$/g, "").split("|").map(c => parseInline(c.trim()));
+
+/**
+ * The subset of markdown briefs use: headings, paragraphs, lists, quotes,
+ * code fences, tables, images on their own line and rules. Nested lists are flattened.
+ */
+export function parseBlocks(markdown: string): Block[] {
+    const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+    const blocks: Block[] = [];
+    let paragraph: string[] = [];
+
+    const flush = () => {
+        if (paragraph.length) blocks.push({ type: "paragraph", runs: parseInline(paragraph.join(" ")) });
+        paragraph = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (FENCE.test(line)) {
+            flush();
+            const fence = line.trim().slice(0, 3);
+            const code: string[] = [];
+            while (++i < lines.length && !lines[i].trim().startsWith(fence)) code.push(lines[i]);
+            blocks.push({ type: "code", text: code.join("\n") });
+            continue;
+        }
+        if (!line.trim()) {
+            flush();
+            continue;
+        }
+        const heading = line.match(HEADING);
+        if (heading) {
+            flush();
+            blocks.push({ type: "heading", level: heading[1].length, runs: parseInline(heading[2]) });
+            continue;
+        }
+        if (RULE.test(line)) {
+            flush();
+            blocks.push({ type: "rule" });
+            continue;
+        }
+        const image = line.match(IMAGE);
+        if (image) {
+            flush();
+            blocks.push({ type: "image", alt: image[1], src: image[2] });
+            continue;
+        }
+        if (line.trim().startsWith("|") && TABLE_DIVIDER.test(lines[i + 1] ?? "")) {
+            flush();
+            const header = tableCells(line);
+            const rows: Run[][][] = [];
+            i++;
+            while (i + 1 < lines.length && lines[i + 1].trim().startsWith("|")) rows.push(tableCells(lines[++i]));
+            blocks.push({ type: "table", header, rows });
+            continue;
+        }
+        const item = line.match(LIST_ITEM);
+        if (item) {
+            flush();
+            const ordered = /\d/.test(item[1]);
+            const items = [item[2]];
+            while (i + 1 < lines.length && lines[i + 1].trim()) {
+                const next = lines[i + 1].match(LIST_ITEM);
+                if (next && /\d/.test(next[1]) === ordered) items.push(next[2]);
+                else if (!next && /^\s+/.test(lines[i + 1])) items[items.length - 1] += " " + lines[i + 1].trim();
+                else break;
+                i++;
+            }
+            blocks.push({ type: "list", ordered, items: items.map(parseInline) });
+            continue;
+        }
+        const quote = line.match(QUOTE);
+        if (quote) {
+            flush();
+            const text = [quote[1]];
+            while (i + 1 < lines.length && QUOTE.test(lines[i + 1])) text.push(lines[++i].match(QUOTE)![1]);
+            blocks.push({ type: "quote", runs: parseInline(text.join(" ")) });
+            continue;
+        }
+        paragraph.push(line.trim());
+    }
+    flush();
+    return blocks;
+}
+
+// --- HTML ---
+
+const escapeHtml = (s: string) => s.replace(/[&<>"']/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c]!));
+
+const runsToHtml = (runs: Run[]) => runs.map(r => {
+    let html = escapeHtml(r.text);
+    if (r.code) html = `<code>${html}</code>`;
+    if (r.italic) html = `<em>${html}</em>`;
+    if (r.bold) html = `<strong>${html}</strong>`;
+    return html;
+}).join("");
+
+export function blocksToHtml(blocks: Block[], images: Record<string, ExportImage> = {}) {
+    return blocks.map(b => {
+        switch (b.type) {
+            case "heading": return `<h${b.level}>${runsToHtml(b.runs)}</h${b.level}>`;
+            case "paragraph": return `<p>${runsToHtml(b.runs)}</p>`;
+            case "quote": return `<blockquote>${runsToHtml(b.runs)}</blockquote>`;
+            case "code": return `<pre><code>${escapeHtml(b.text)}</code></pre>`;
+            case "rule": return `<hr>`;
+            case "image": {
+                const image = images[b.src];
+                const alt = escapeHtml(b.alt);
+                if (!image) return alt ? `<p><em>${alt}</em></p>` : "";
+                return `<figure><img src="${image.dataUrl}" alt="${alt}">${alt ? `<figcaption>${alt}</figcaption>` : ""}</figure>`;
+            }
+            case "list": {
+                const tag = b.ordered ? "ol" : "ul";
+                return `<${tag}>${b.items.map(item => `<li>${runsToHtml(item)}</li>`).join("")}</${tag}>`;
+            }
+            case "table": return `<table><thead><tr>${b.header.map(c => `<th>${runsToHtml(c)}</th>`).join("")}</tr></thead>`
+                + `<tbody>${b.rows.map(row => `<tr>${row.map(c => `<td>${runsToHtml(c)}</td>`).join("")}</tr>`).join("")}</tbody></table>`;
+        }
+    }).join("\n");
+}
+
+const fontsLink = (theme: ExportTheme) => {
+    const families = [...new Set([theme.displayFont, theme.bodyFont])]
+        .map(f => `family=${encodeURIComponent(f).replace(/%20/g, "+")}:wght@400;700;800`)
+        .join("&");
+    return `<link rel="stylesheet" href="https://fonts.googleapis.com/css2?${families}&display=swap">`;
+};
+
+export function renderHtml(doc: ExportDocument) {
+    const { cover, theme } = doc;
+    const meta = [
+        cover.clientName && `Prepared for ${escapeHtml(cover.clientName)}`,
+        cover.agencyName && `by ${escapeHtml(cover.agencyName)}`
+    ].filter(Boolean).join(" ");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(cover.title)}</title>
+${fontsLink(theme)}
+<style>
+    body { margin: 0; background: ${theme.paper}; color: ${theme.ink}; font-family: '${theme.bodyFont}', sans-serif; line-height: 1.6; }
+    .page { max-width: 760px; margin: 0 auto; padding: 64px 48px; }
+    .cover { min-height: 100vh; box-sizing: border-box; display: flex; flex-direction: column; justify-content: space-between; page-break-after: always; }
+    .cover img { max-width: 180px; max-height: 80px; object-fit: contain; }
+    .cover h1 { font-family: '${theme.displayFont}', sans-serif; font-weight: 800; font-size: 64px; line-height: 0.95; letter-spacing: -2px; margin: 0; }
+    .cover .meta { color: ${theme.muted}; font-size: 14px; letter-spacing: 1px; }
+    .cover .rule { width: 64px; height: 6px; background: ${theme.accent}; margin: 32px 0; }
+    section { page-break-before: always; }
+    h1, h2, h3, h4 { font-family: '${theme.displayFont}', sans-serif; line-height: 1.15; }
+    h1 { font-size: 40px; margin: 0 0 24px; }
+    h2 { font-size: 24px; margin: 40px 0 12px; padding-bottom: 8px; border-bottom: 2px solid ${theme.accent}; }
+    h3 { font-size: 18px; margin: 28px 0 8px; }
+    blockquote { margin: 16px 0; padding-left: 16px; border-left: 3px solid ${theme.accent}; color: ${theme.muted}; }
+    code { font-family: ui-monospace, monospace; font-size: 0.9em; }
+    pre { padding: 16px; border: 1px solid ${theme.muted}; border-radius: 8px; overflow-x: auto; }
+    table { border-collapse: collapse; width: 100%; margin: 16px 0; }
+    th, td { border: 1px solid ${theme.muted}; padding: 6px 10px; text-align: left; }
+    hr { border: none; border-top: 1px solid ${theme.muted}; margin: 32px 0; }
+    figure { margin: 24px 0; page-break-inside: avoid; }
+    figure img { max-width: 100%; max-height: 480px; display: block; }
+    figcaption { color: ${theme.muted}; font-size: 13px; margin-top: 6px; }
+    @media print { .page { padding: 0; } .cover { min-height: 90vh; } }
+</style>
+</head>
+<body>
+<div class="page">
+<div class="cover">
+    <div>${cover.logo ? `<img src="${cover.logo.dataUrl}" alt="">` : ""}</div>
+    <div>
+        <h1>${escapeHtml(cover.title)}</h1>
+        <div class="rule"></div>
+        <div class="meta">${meta}</div>
+    </div>
+    <div class="meta">${escapeHtml(cover.date)}</div>
+</div>
+${doc.sections.map(s => `<section data-part="${s.part}">\n${blocksToHtml(parseBlocks(s.markdown), doc.images)}\n</section>`).join("\n")}
+</div>
+</body>
+</html>
+`;
+}
+
+// --- Formats ---
+
+const fileBase = (doc: ExportDocument) =>
+    doc.cover.title.replace(/[^\w\- ]+/g, "").trim().replace(/\s+/g, "_") || "Brief";
+
+/**
+ * Renders the document in the chosen format, ready to download.
+ */
+export async function exportDocument(doc: ExportDocument, format: ExportFormat): Promise<{ name: string, blob: Blob }> {
+    const name = `${fileBase(doc)}.${format}`;
+    if (format === "html") {
+        return { name, blob: new Blob([renderHtml(doc)], { type: "text/html" }) };
+    }
+    if (format === "docx") {
+        const { renderDocx } = await import("./export-docx");
+        return { name, blob: await renderDocx(doc) };
+    }
+    const { renderPdf } = await import("./export-pdf");
+    return { name, blob: renderPdf(doc) };
+}
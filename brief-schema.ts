@@ -0,0 +1,128 @@
+import { parseSections, normalizeHeading } from "./spec-sections";
+
+/**
+ * Describes what a complete brief contains and scores how much of it has been captured.
+ * - Sections are matched by heading (any alias counts).
+ * - Fields are "Label:" lines expected inside a section, e.g. "Range:" under Budget.
+ */
+
+export interface BriefSectionSpec {
+    heading: string;
+    aliases?: string[];
+    required: boolean;
+    /** What the section should capture; passed to the model when it is missing. */
+    hint: string;
+    fields?: string[];
+    /** Minimum words of content before the section counts as filled. */
+    minWords?: number;
+}
+
+export interface BriefSchema {
+    id: string;
+    name: string;
+    sections: BriefSectionSpec[];
+}
+
+export interface BriefGap {
+    heading: string;
+    hint: string;
+    required: boolean;
+    /** No usable content yet, as opposed to only missing some fields. */
+    empty: boolean;
+    fields: string[];
+}
+
+export interface BriefCoverage {
+    /** 0..1, share of required sections and fields that are filled. */
+    score: number;
+    gaps: BriefGap[];
+    /** Required sections that are still empty. */
+    missingRequired: string[];
+}
+
+const DEFAULT_MIN_WORDS = 3;
+const PLACEHOLDER = /^(waiting for input\.*|tbd|todo|n\/a|-|…|\.\.\.)$/i;
+
+export const DEFAULT_BRIEF_SCHEMA: BriefSchema = {
+    id: "default",
+    name: "Product Brief",
+    sections: [
+        { heading: "Goals", aliases: ["Vision", "Objectives"], required: true, hint: "What the product must achieve and why now." },
+        { heading: "Audience", aliases: ["Users", "Target Audience"], required: true, hint: "Who it is for, their context and needs." },
+        { heading: "Constraints", aliases: ["Requirements"], required: true, hint: "Technical, legal, brand or platform limits." },
+        { heading: "Budget", aliases: ["Budget & Timeline"], required: true, hint: "Budget range and deadline.", fields: ["Range", "Deadline"] },
+        { heading: "Success Metrics", aliases: ["KPIs", "Success Criteria"], required: true, hint: "How success will be measured after launch." },
+        { heading: "Competitors", aliases: ["References", "Inspiration"], required: false, hint: "Products the client admires or competes with." }
+    ]
+};
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** True when the body has a "Label: value" line, tolerating list markers and bold labels. */
+const hasField = (body: string, field: string) =>
+    new RegExp(`^[\\s*_-]*${escapeRegExp(field)}[*_]*\\s*:[*_]*\\s*\\S`, "im").test(body);
+
+function stripMarkdown(text: string) {
+    return text
+        .split("\n")
+        .map(l => l.replace(/^\s*([-*+]|\d+\.)\s+/, "").replace(/[*_`>#]/g, "").trim())
+        .filter(l => l && !PLACEHOLDER.test(l))
+        .join(" ");
+}
+
+export function scoreBrief(spec: string, schema: BriefSchema): BriefCoverage {
+    const lines = spec.split("\n");
+    const sections = parseSections(spec);
+    const gaps: BriefGap[] = [];
+    let total = 0;
+    let filled = 0;
+
+    schema.sections.forEach(def => {
+        const names = [def.heading, ...(def.aliases ?? [])].map(normalizeHeading);
+        const found = sections.find(s => names.includes(normalizeHeading(s.heading)));
+        const body = found ? lines.slice(found.start + 1, found.end).join("\n") : "";
+        const hasContent = wordCount(stripMarkdown(body)) >= (def.minWords ?? DEFAULT_MIN_WORDS);
+        const fields = def.fields ?? [];
+        const missingFields = fields.filter(f => !hasField(body, f));
+
+        if (def.required) {
+            total += 1 + fields.length;
+            if (hasContent) filled += 1 + fields.length - missingFields.length;
+        }
+        if (!hasContent || missingFields.length) {
+            gaps.push({
+                heading: def.heading,
+                hint: def.hint,
+                required: def.required,
+                empty: !hasContent,
+                fields: hasContent ? missingFields : fields
+            });
+        }
+    });
+
+    return {
+        score: total ? filled / total : 1,
+        gaps,
+        missingRequired: gaps.filter(g => g.required && g.empty).map(g => g.heading)
+    };
+}
+
+/**
+ * Summary of the gaps for the model, so follow-up questions target what is missing.
+ */
+export function describeGaps(coverage: BriefCoverage) {
+    if (!coverage.gaps.length) return "The brief covers every section in the schema.";
+    return coverage.gaps
+        .map(g => `- ${g.heading}${g.required ? " (required)" : ""}: ${g.hint}${g.fields.length ? ` Missing fields: ${g.fields.join(", ")}.` : ""}`)
+        .join("\n");
+}
+
+/**
+ * Section list for the system prompt, used as the brief's target structure.
+ */
+export function describeSchema(schema: BriefSchema) {
+    return schema.sections
+        .map(s => `- ${s.heading}${s.required ? " (required)" : ""}: ${s.hint}${s.fields?.length ? ` Include "${s.fields.join(':", "')}:" lines.` : ""}`)
+        .join("\n");
+}
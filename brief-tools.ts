@@ -0,0 +1,132 @@
+import { LiveTool, ToolRegistry } from "./tool-registry";
+import { appendToSection, removeSection, upsertSection } from "./spec-sections";
+import { ImageTag, MOODBOARD_HEADING } from "./moodboard";
+
+/**
+ * The tools the live model uses to write the brief, propose questions and
+ * tag moodboard images.
+ */
+
+/** What brief tools can see and change in the running session. */
+export interface BriefToolContext {
+    getSpec(): string;
+    /** Replaces the brief and records a revision. */
+    commitSpec(content: string, label: string): void;
+    /** Flashes a section in the brief preview. */
+    highlight(heading: string): void;
+    mergeQuestions(texts: string[]): void;
+    unansweredQuestions(): string[];
+    /** Records a verdict on a moodboard image. Throws for an unknown id. */
+    tagImage(id: string, tag: ImageTag, reason: string): void;
+    /** Coverage and missing sections, attached to responses so the model sees the gaps. */
+    gapReport(): Record<string, unknown>;
+}
+
+export type BriefTool = LiveTool<BriefToolContext>;
+
+const updateSpec: BriefTool = {
+    declaration: {
+        name: "updateSpec",
+        description: "Replace the whole design brief. Prefer the section tools for targeted changes.",
+        parameters: { type: "OBJECT", properties: { content: { type: "STRING" } }, required: ["content"] }
+    },
+    handle: ({ content }: { content: string }, ctx) => {
+        ctx.commitSpec(content, "updateSpec");
+        return ctx.gapReport();
+    }
+};
+
+const upsertSectionTool: BriefTool = {
+    declaration: {
+        name: "upsertSection",
+        description: "Replace the body of one brief section, addressed by its heading. Its subsections are kept. Creates the section if it does not exist. The title (H1) cannot be targeted; use updateSpec.",
+        parameters: {
+            type: "OBJECT",
+            properties: {
+                heading: { type: "STRING" },
+                content: { type: "STRING" },
+                level: { type: "INTEGER", description: "Heading level for new sections, 1-6 (default 2)." }
+            },
+            required: ["heading", "content"]
+        }
+    },
+    handle: ({ heading, content, level }: { heading: string, content: string, level?: number }, ctx) => {
+        ctx.commitSpec(upsertSection(ctx.getSpec(), heading, content, level), `upsertSection: ${heading}`);
+        ctx.highlight(heading);
+        return { heading, ...ctx.gapReport() };
+    }
+};
+
+const appendToSectionTool: BriefTool = {
+    declaration: {
+        name: "appendToSection",
+        description: "Append markdown to the end of one brief section's body, before its subsections, addressed by its heading. Creates the section if it does not exist.",
+        parameters: {
+            type: "OBJECT",
+            properties: { heading: { type: "STRING" }, content: { type: "STRING" } },
+            required: ["heading", "content"]
+        }
+    },
+    handle: ({ heading, content }: { heading: string, content: string }, ctx) => {
+        ctx.commitSpec(appendToSection(ctx.getSpec(), heading, content), `appendToSection: ${heading}`);
+        ctx.highlight(heading);
+        return { heading, ...ctx.gapReport() };
+    }
+};
+
+const removeSectionTool: BriefTool = {
+    declaration: {
+        name: "removeSection",
+        description: "Remove one brief section and its subsections, addressed by its heading.",
+        parameters: { type: "OBJECT", properties: { heading: { type: "STRING" } }, required: ["heading"] }
+    },
+    handle: ({ heading }: { heading: string }, ctx) => {
+        ctx.commitSpec(removeSection(ctx.getSpec(), heading), `removeSection: ${heading}`);
+        return { heading, ...ctx.gapReport() };
+    }
+};
+
+const askFollowUpQuestions: BriefTool = {
+    declaration: {
+        name: "askFollowUpQuestions",
+        description: "Propose strategic questions.",
+        parameters: {
+            type: "OBJECT",
+            properties: {
+                intro: { type: "STRING" },
+                qs: { type: "ARRAY", items: { type: "STRING" } }
+            },
+            required: ["intro", "qs"]
+        }
+    },
+    handle: ({ qs }: { qs: string[] }, ctx) => {
+        ctx.mergeQuestions(qs);
+        return { stillUnanswered: ctx.unansweredQuestions(), ...ctx.gapReport() };
+    }
+};
+
+const tagImage: BriefTool = {
+    declaration: {
+        name: "tagImage",
+        description: "Record whether the client likes a reference image or wants to avoid its direction, and why. Images are identified by the id they were shared with, e.g. \"ref-2\".",
+        parameters: {
+            type: "OBJECT",
+            properties: {
+                id: { type: "STRING" },
+                tag: { type: "STRING", enum: ["like", "avoid"] },
+                reason: { type: "STRING", description: "What the client likes or dislikes about it, in one sentence." }
+            },
+            required: ["id", "tag", "reason"]
+        }
+    },
+    handle: ({ id, tag, reason }: { id: string, tag: ImageTag, reason: string }, ctx) => {
+        ctx.tagImage(id, tag, reason);
+        ctx.highlight(MOODBOARD_HEADING);
+        return { id, tag, ...ctx.gapReport() };
+    }
+};
+
+export const BRIEF_TOOLS: BriefTool[] = [updateSpec, upsertSectionTool, appendToSectionTool, removeSectionTool, askFollowUpQuestions, tagImage];
+
+/** Every tool a session can use; templates pick from these by name. */
+export const createBriefToolRegistry = () => new ToolRegistry<BriefToolContext>(BRIEF_TOOLS);
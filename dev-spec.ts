@@ -0,0 +1,101 @@
+import { GoogleGenAI } from "@google/genai";
+
+/**
+ * Generates the technical architecture document from the finished brief.
+ * - Runs as a plain (non-live) text generation request.
+ * - The transport is swappable so the UI can be exercised without network.
+ */
+
+export interface DevSpecTransport {
+    generate(prompt: string, systemInstruction: string): Promise<string>;
+}
+
+export interface DevSpecTurn {
+    role: string;
+    text: string;
+}
+
+const DEV_SPEC_MODEL = "gemini-2.5-flash";
+
+export const DEV_SPEC_SYSTEM = `
+You are a senior software architect. You turn an agreed product design brief into an engineering spec that a development team can start from.
+Rules:
+1. Stay faithful to the brief. Do not invent features the client did not ask for; list assumptions explicitly.
+2. Output GitHub-flavoured markdown only, no preamble.
+3. Use exactly these sections, in this order:
+   # Technical Architecture
+   ## Overview
+   ## Data Model
+   ## Components
+   ## APIs
+   ## Milestones
+   ## Open Risks
+4. Data Model: entities with fields and relationships. APIs: endpoints or interfaces with inputs/outputs.
+5. Milestones: ordered, each with a short scope statement. Open Risks: unknowns, dependencies and questions for the client.
+`;
+
+/**
+ * Default transport backed by the Gemini REST API.
+ */
+export class GenAITransport implements DevSpecTransport {
+    private ai: GoogleGenAI;
+
+    constructor(apiKey: string, public model = DEV_SPEC_MODEL) {
+        this.ai = new GoogleGenAI({ apiKey });
+    }
+
+    async generate(prompt: string, systemInstruction: string) {
+        const response = await this.ai.models.generateContent({
+            model: this.model,
+            contents: prompt,
+            config: { systemInstruction }
+        });
+        return response.text ?? "";
+    }
+}
+
+/**
+ * Transport that goes through the backend proxy so the API key stays on the server.
+ */
+export class ProxyTransport implements DevSpecTransport {
+    constructor(public proxyUrl: string, private getToken: () => Promise<string>) {}
+
+    async generate(prompt: string, systemInstruction: string) {
+        const res = await fetch(`${this.proxyUrl}/api/generate`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", "Authorization": `Bearer ${await this.getToken()}` },
+            body: JSON.stringify({ prompt, systemInstruction })
+        });
+        const body = await res.json().catch(() => ({}));
+        if (!res.ok) {
+            throw new Error(body.error || `Proxy generation failed (${res.status})`);
+        }
+        return body.text ?? "";
+    }
+}
+
+export function buildDevSpecPrompt(brief: string, conversation: DevSpecTurn[] = []) {
+    const transcript = conversation
+        .filter(t => t.text.trim())
+        .map(t => `${t.role.toUpperCase()}: ${t.text.trim()}`)
+        .join("\n");
+
+    return [
+        "## Design Brief",
+        brief.trim(),
+        "",
+        "## Discovery Conversation",
+        transcript || "(no transcript captured)",
+        "",
+        "Write the technical architecture for this brief."
+    ].join("\n");
+}
+
+export async function generateDevSpec(transport: DevSpecTransport, brief: string, conversation: DevSpecTurn[] = []) {
+    const text = await transport.generate(buildDevSpecPrompt(brief, conversation), DEV_SPEC_SYSTEM);
+    const devSpec = text.trim();
+    if (!devSpec) {
+        throw new Error("Technical spec generation returned no content.");
+    }
+    return devSpec;
+}
@@ -0,0 +1,114 @@
+/**
+ * Documents the client brings to a session (an RFP, notes, an old brief).
+ * - Markdown and text are read as-is; PDFs are reduced to their text layer.
+ * - An import can become the starting brief and/or be shared with the live
+ *   model as context, so the interview asks about what is missing.
+ */
+
+export type ImportKind = "markdown" | "text" | "pdf" | "paste";
+
+export interface ImportedDocument {
+    id: string;
+    name: string;
+    kind: ImportKind;
+    text: string;
+    /** Text was cut to MAX_IMPORT_CHARS. */
+    truncated: boolean;
+    importedAt: number;
+}
+
+/** Keeps one import from crowding the model's context window. */
+export const MAX_IMPORT_CHARS = 60000;
+
+export const IMPORT_ACCEPT = ".md,.markdown,.txt,.pdf,text/markdown,text/plain,application/pdf";
+
+export function importKindOf(file: File): ImportKind | null {
+    const name = file.name.toLowerCase();
+    if (file.type === "application/pdf" || name.endsWith(".pdf")) return "pdf";
+    if (/\.(md|markdown)$/.test(name) || file.type === "text/markdown") return "markdown";
+    if (name.endsWith(".txt") || file.type.startsWith("text/")) return "text";
+    return null;
+}
+
+/**
+ * Tidies extracted text: unified line endings, no trailing spaces, at most
+ * one blank line in a row.
+ */
+export function normalizeText(text: string) {
+    return text
+        .replace(/\r\n?/g, "\n")
+        .replace(/[ \t]+$/gm, "")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+}
+
+export function createImport(name: string, kind: ImportKind, raw: string): ImportedDocument {
+    const text = normalizeText(raw);
+    if (!text) throw new Error(`"${name}" has no readable text.`);
+    const truncated = text.length > MAX_IMPORT_CHARS;
+    return {
+        id: Math.random().toString(36).slice(2),
+        name,
+        kind,
+        text: truncated ? text.slice(0, MAX_IMPORT_CHARS) : text,
+        truncated,
+        importedAt: Date.now()
+    };
+}
+
+export async function readImportFile(file: File): Promise<ImportedDocument> {
+    const kind = importKindOf(file);
+    if (!kind) throw new Error(`"${file.name}" is not a markdown, text or PDF file.`);
+    const text = kind === "pdf" ? await extractPdfText(await file.arrayBuffer()) : await file.text();
+    return createImport(file.name, kind, text);
+}
+
+/**
+ * Text layer of a PDF, one paragraph per line break in the source. Scanned
+ * PDFs without a text layer come back empty.
+ */
+export async function extractPdfText(data: ArrayBuffer) {
+    // Loaded on demand, it is large and only needed for PDF imports
+    const pdfjs = await import("pdfjs-dist");
+    if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+        pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+    }
+
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+    try {
+        const pages: string[] = [];
+        for (let n = 1; n <= pdf.numPages; n++) {
+            const page = await pdf.getPage(n);
+            const content = await page.getTextContent();
+            pages.push(content.items.map(item => "str" in item ? item.str + (item.hasEOL ? "\n" : "") : "").join(""));
+        }
+        return pages.join("\n\n");
+    } finally {
+        await pdf.destroy();
+    }
+}
+
+/**
+ * Starting brief from an import. Markdown with a title (a file or pasted)
+ * is taken as it is; anything else is kept under a title from the file name.
+ */
+export function briefFromImport(doc: ImportedDocument) {
+    if ((doc.kind === "markdown" || doc.kind === "paste") && /^#\s+\S/m.test(doc.text)) return doc.text;
+    const title = doc.kind === "paste" ? "" : doc.name.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " ").trim();
+    return `# ${title || "Untitled Vision"}\n\n## Source Material\n\n${doc.text}`;
+}
+
+/**
+ * clientContent text that shares an import with the live model.
+ */
+export function importContext(doc: ImportedDocument) {
+    return [
+        `[Document shared] The client provided "${doc.name}" before or during this session.`,
+        "Treat what it states as already known: do not ask the client to repeat it.",
+        "Focus your questions on what it leaves out, contradicts or leaves vague, and update the brief from it where it answers a section.",
+        doc.truncated ? "The document was too long and has been cut off." : "",
+        "--- DOCUMENT START ---",
+        doc.text,
+        "--- DOCUMENT END ---"
+    ].filter(Boolean).join("\n");
+}
@@ -0,0 +1,135 @@
+import {
+    AlignmentType, BorderStyle, Document, HeadingLevel, ImageRun, LevelFormat, Packer,
+    Paragraph, ParagraphChild, ShadingType, Table, TableCell, TableRow, TextRun, WidthType
+} from "docx";
+import { Block, ExportDocument, ExportImage, ExportTheme, Run, parseBlocks } from "./brief-export";
+
+/**
+ * Word export. Fonts are referenced by name, so Syne/Manrope show when
+ * installed on the reader's machine and Word substitutes them otherwise.
+ */
+
+const MAX_LOGO = { width: 180, height: 80 };
+// Page width inside the default margins, in pixels at 96 dpi
+const MAX_FIGURE = { width: 600, height: 420 };
+const HEADINGS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4, HeadingLevel.HEADING_5, HeadingLevel.HEADING_6];
+
+const hex = (color: string) => color.replace("#", "");
+
+const textRuns = (runs: Run[], theme: ExportTheme): ParagraphChild[] => runs.map(r => new TextRun({
+    text: r.text,
+    bold: r.bold,
+    italics: r.italic,
+    font: r.code ? "Courier New" : undefined,
+    color: hex(theme.ink)
+}));
+
+function imageRun(image: ExportImage, max: { width: number, height: number }) {
+    const scale = Math.min(1, max.width / image.width, max.height / image.height);
+    const [, mime, data] = image.dataUrl.match(/^data:image\/(\w+);base64,(.*)$/) ?? [];
+    if (!data) return null;
+    return new ImageRun({
+        type: mime === "png" ? "png" : "jpg",
+        data: Uint8Array.from(atob(data), c => c.charCodeAt(0)),
+        transformation: { width: Math.round(image.width * scale), height: Math.round(image.height * scale) }
+    });
+}
+
+function coverPage(doc: ExportDocument) {
+    const { cover, theme } = doc;
+    const logo = cover.logo ? imageRun(cover.logo, MAX_LOGO) : null;
+    const meta = [cover.clientName && `Prepared for ${cover.clientName}`, cover.agencyName && `by ${cover.agencyName}`]
+        .filter(Boolean).join(" ");
+
+    return [
+        new Paragraph({ children: logo ? [logo] : [], spacing: { after: 2400 } }),
+        new Paragraph({
+            children: [new TextRun({ text: cover.title, font: theme.displayFont, bold: true, size: 96, color: hex(theme.ink) })],
+            border: { bottom: { style: BorderStyle.THICK, size: 36, color: hex(theme.accent), space: 12 } },
+            spacing: { after: 480 }
+        }),
+        new Paragraph({ children: [new TextRun({ text: meta, color: hex(theme.muted), size: 24 })] }),
+        new Paragraph({ children: [new TextRun({ text: cover.date, color: hex(theme.muted), size: 24 })], spacing: { before: 240 } })
+    ];
+}
+
+function blockContent(blocks: Block[], theme: ExportTheme, images: Record<string, ExportImage>): (Paragraph | Table)[] {
+    let listInstance = 0;
+    return blocks.flatMap((b): (Paragraph | Table)[] => {
+        switch (b.type) {
+            case "heading":
+                return [new Paragraph({ heading: HEADINGS[b.level - 1], children: textRuns(b.runs, theme) })];
+            case "paragraph":
+                return [new Paragraph({ children: textRuns(b.runs, theme), spacing: { after: 160 } })];
+            case "quote":
+                return [new Paragraph({
+                    children: textRuns(b.runs, theme),
+                    indent: { left: 360 },
+                    border: { left: { style: BorderStyle.SINGLE, size: 18, color: hex(theme.accent), space: 12 } }
+                })];
+            case "code":
+                return b.text.split("\n").map(line => new Paragraph({
+                    children: [new TextRun({ text: line, font: "Courier New", size: 18, color: hex(theme.ink) })],
+                    shading: { type: ShadingType.CLEAR, fill: "F2F2F2", color: "auto" }
+                }));
+            case "image": {
+                const image = images[b.src] ? imageRun(images[b.src], MAX_FIGURE) : null;
+                const caption = b.alt ? [new Paragraph({ children: [new TextRun({ text: b.alt, italics: true, color: hex(theme.muted), size: 20 })], spacing: { after: 240 } })] : [];
+                return image ? [new Paragraph({ children: [image], spacing: { before: 240, after: 80 } }), ...caption] : caption;
+            }
+            case "rule":
+                return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: hex(theme.muted), space: 1 } } })];
+            case "list": {
+                const instance = ++listInstance;
+                return b.items.map(item => new Paragraph({
+                    children: textRuns(item, theme),
+                    ...(b.ordered ? { numbering: { reference: "ordered", level: 0, instance } } : { bullet: { level: 0 } })
+                }));
+            }
+            case "table": {
+                const row = (cells: Run[][], header = false) => new TableRow({
+                    tableHeader: header,
+                    children: cells.map(c => new TableCell({
+                        children: [new Paragraph({ children: textRuns(header ? c.map(r => ({ ...r, bold: true })) : c, theme) })]
+                    }))
+                });
+                return [new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [row(b.header, true), ...b.rows.map(r => row(r))] })];
+            }
+        }
+    });
+}
+
+export async function renderDocx(doc: ExportDocument) {
+    const { theme } = doc;
+    const heading = (size: number) => ({
+        run: { font: theme.displayFont, size, bold: true, color: hex(theme.ink) },
+        paragraph: { spacing: { before: 360, after: 160 } }
+    });
+
+    const document = new Document({
+        title: doc.cover.title,
+        creator: doc.cover.agencyName || undefined,
+        background: { color: hex(theme.paper) },
+        styles: {
+            default: {
+                document: { run: { font: theme.bodyFont, size: 22, color: hex(theme.ink) } },
+                heading1: heading(48),
+                heading2: heading(32),
+                heading3: heading(26),
+                heading4: heading(24)
+            }
+        },
+        numbering: {
+            config: [{
+                reference: "ordered",
+                levels: [{ level: 0, format: LevelFormat.DECIMAL, text: "%1.", alignment: AlignmentType.START }]
+            }]
+        },
+        // Each part starts on a new page
+        sections: [
+            { children: coverPage(doc) },
+            ...doc.sections.map(s => ({ children: blockContent(parseBlocks(s.markdown), theme, doc.images) }))
+        ]
+    });
+    return Packer.toBlob(document);
+}
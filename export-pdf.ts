@@ -0,0 +1,177 @@
+import { jsPDF } from "jspdf";
+import { Block, ExportDocument, ExportImage, ExportTheme, Run, parseBlocks, plainText } from "./brief-export";
+
+/**
+ * PDF export. Laid out directly with jsPDF text primitives; uses the
+ * built-in Helvetica since the theme's web fonts are not embedded.
+ */
+
+const PAGE = { width: 595, height: 842, margin: 56 };
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+const HEADING_SIZES = [24, 16, 13, 12, 11, 11];
+const BODY_SIZE = 10.5;
+const LINE_HEIGHT = 1.45;
+const MAX_FIGURE_HEIGHT = 320;
+
+const imageFormat = (image: ExportImage) => image.dataUrl.startsWith("data:image/png") ? "PNG" : "JPEG";
+
+class PdfWriter {
+    pdf = new jsPDF({ unit: "pt", format: "a4" });
+    y = PAGE.margin;
+
+    constructor(public theme: ExportTheme) {
+        this.paintBackground();
+    }
+
+    private paintBackground() {
+        if (this.theme.paper.toLowerCase() === "#ffffff") return;
+        this.pdf.setFillColor(this.theme.paper);
+        this.pdf.rect(0, 0, PAGE.width, PAGE.height, "F");
+    }
+
+    newPage() {
+        this.pdf.addPage();
+        this.paintBackground();
+        this.y = PAGE.margin;
+    }
+
+    ensure(height: number) {
+        if (this.y + height > PAGE.height - PAGE.margin) this.newPage();
+    }
+
+    text(value: string, opts: { size?: number, bold?: boolean, mono?: boolean, color?: string, indent?: number, after?: number } = {}) {
+        const size = opts.size ?? BODY_SIZE;
+        const indent = opts.indent ?? 0;
+        this.pdf.setFont(opts.mono ? "courier" : "helvetica", opts.bold ? "bold" : "normal");
+        this.pdf.setFontSize(size);
+        this.pdf.setTextColor(opts.color ?? this.theme.ink);
+
+        const lineHeight = size * LINE_HEIGHT;
+        const lines: string[] = this.pdf.splitTextToSize(value, CONTENT_WIDTH - indent);
+        for (const line of lines) {
+            this.ensure(lineHeight);
+            this.pdf.text(line, PAGE.margin + indent, this.y + size);
+            this.y += lineHeight;
+        }
+        this.y += opts.after ?? 0;
+        return lines.length * lineHeight;
+    }
+
+    rule(color: string, width = 0.5) {
+        this.pdf.setDrawColor(color);
+        this.pdf.setLineWidth(width);
+        this.pdf.line(PAGE.margin, this.y, PAGE.width - PAGE.margin, this.y);
+    }
+}
+
+function writeCover(w: PdfWriter, doc: ExportDocument) {
+    const { cover, theme } = doc;
+    if (cover.logo) {
+        const scale = Math.min(1, 180 / cover.logo.width, 80 / cover.logo.height);
+        w.pdf.addImage(cover.logo.dataUrl, imageFormat(cover.logo), PAGE.margin, PAGE.margin, cover.logo.width * scale, cover.logo.height * scale);
+    }
+
+    w.y = PAGE.height * 0.42;
+    w.text(cover.title, { size: 40, bold: true, after: 16 });
+    w.pdf.setFillColor(theme.accent);
+    w.pdf.rect(PAGE.margin, w.y, 48, 5, "F");
+    w.y += 32;
+
+    const meta = [cover.clientName && `Prepared for ${cover.clientName}`, cover.agencyName && `by ${cover.agencyName}`]
+        .filter(Boolean).join(" ");
+    if (meta) w.text(meta, { size: 12, color: theme.muted, after: 6 });
+    w.text(cover.date, { size: 12, color: theme.muted });
+}
+
+function writeBlocks(w: PdfWriter, blocks: Block[], images: Record<string, ExportImage>) {
+    const { theme } = w;
+    for (const b of blocks) {
+        switch (b.type) {
+            case "heading": {
+                const size = HEADING_SIZES[b.level - 1];
+                w.y += size * 0.8;
+                w.ensure(size * 3);
+                w.text(plainText(b.runs), { size, bold: true, after: 4 });
+                if (b.level === 2) {
+                    w.rule(theme.accent, 1.5);
+                    w.y += 8;
+                }
+                break;
+            }
+            case "paragraph":
+                w.text(plainText(b.runs), { after: 8 });
+                break;
+            case "quote": {
+                const top = w.y;
+                w.text(plainText(b.runs), { color: theme.muted, indent: 14 });
+                w.pdf.setFillColor(theme.accent);
+                if (w.y > top) w.pdf.rect(PAGE.margin, top, 2.5, w.y - top, "F");
+                w.y += 8;
+                break;
+            }
+            case "code":
+                w.text(b.text, { mono: true, size: 9, after: 8 });
+                break;
+            case "image": {
+                const image = images[b.src];
+                if (image) {
+                    const scale = Math.min(1, CONTENT_WIDTH / image.width, MAX_FIGURE_HEIGHT / image.height);
+                    const height = image.height * scale;
+                    w.y += 8;
+                    w.ensure(height);
+                    w.pdf.addImage(image.dataUrl, imageFormat(image), PAGE.margin, w.y, image.width * scale, height);
+                    w.y += height + 6;
+                }
+                if (b.alt) w.text(b.alt, { size: 9, color: theme.muted, after: 10 });
+                break;
+            }
+            case "rule":
+                w.y += 8;
+                w.rule(theme.muted);
+                w.y += 16;
+                break;
+            case "list":
+                b.items.forEach((item, i) => {
+                    const marker = b.ordered ? `${i + 1}.` : "•";
+                    w.ensure(BODY_SIZE * LINE_HEIGHT);
+                    w.pdf.setFont("helvetica", "normal");
+                    w.pdf.setFontSize(BODY_SIZE);
+                    w.pdf.setTextColor(theme.accent);
+                    w.pdf.text(marker, PAGE.margin + 4, w.y + BODY_SIZE);
+                    w.text(plainText(item), { indent: 20, after: 3 });
+                });
+                w.y += 6;
+                break;
+            case "table": {
+                const columns = Math.max(b.header.length, ...b.rows.map(r => r.length));
+                const colWidth = CONTENT_WIDTH / columns;
+                const writeRow = (cells: Run[][], bold: boolean) => {
+                    w.pdf.setFont("helvetica", bold ? "bold" : "normal");
+                    w.pdf.setFontSize(9);
+                    const wrapped = cells.map(c => w.pdf.splitTextToSize(plainText(c), colWidth - 8) as string[]);
+                    const height = Math.max(1, ...wrapped.map(l => l.length)) * 9 * LINE_HEIGHT + 6;
+                    w.ensure(height);
+                    w.pdf.setTextColor(theme.ink);
+                    wrapped.forEach((lines, col) => w.pdf.text(lines, PAGE.margin + col * colWidth + 4, w.y + 12, { lineHeightFactor: LINE_HEIGHT }));
+                    w.y += height;
+                    w.rule(theme.muted);
+                };
+                writeRow(b.header, true);
+                b.rows.forEach(r => writeRow(r, false));
+                w.y += 10;
+                break;
+            }
+        }
+    }
+}
+
+export function renderPdf(doc: ExportDocument) {
+    const w = new PdfWriter(doc.theme);
+    w.pdf.setProperties({ title: doc.cover.title, author: doc.cover.agencyName });
+    writeCover(w, doc);
+    for (const section of doc.sections) {
+        w.newPage();
+        writeBlocks(w, parseBlocks(section.markdown), doc.images);
+    }
+    return w.pdf.output("blob");
+}
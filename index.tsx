@@ -1,7 +1,32 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 import { createRoot } from "react-dom/client";
-import { LiveClient } from "./live-client";
-import ReactMarkdown from "react-markdown";
+import { LiveClient, fetchProxyToken, proxyLiveEndpoint } from "./live-client";
+import { DEFAULT_INPUT_SETTINGS, INPUT_MODE_LABELS, InputMode, InputSettings, listInputDevices } from "./audio-streamer";
+import { DevSpecTransport, GenAITransport, ProxyTransport, generateDevSpec as generateTechSpec } from "./dev-spec";
+import { BACKLOG_FORMATS, Backlog, BacklogFormat, Epic, Story, formatBacklog, generateBacklog as generateBacklogFromBrief } from "./backlog";
+import { SessionStore, StoredSession, createSessionId, titleFromSpec } from "./session-store";
+import { RecordingLayout, SessionRecorder } from "./session-recording";
+import { Participant, attributedText, createParticipant, duplicateNames, participantLabel, speakerContext, spokenTurnContext, workshopContext } from "./workshop";
+import { DEFAULT_FRAME_RATE, FRAME_RATES, VIDEO_SOURCE_LABELS, VideoSource, clampFrameRate, videoContext, videoSupported } from "./video-streamer";
+import { IMPORT_ACCEPT, ImportedDocument, briefFromImport, createImport, importContext, readImportFile } from "./document-import";
+import {
+    IMAGE_TAG_LABELS, ImageTag, MOODBOARD_URL, MoodboardImage, imageContext, imageData, imagesByUrl, nextImageId, prepareImage, syncMoodboard
+} from "./moodboard";
+import {
+    EXPORT_FORMAT_LABELS, EXPORT_PART_LABELS, ExportFormat, ExportLogo, ExportPart, ExportPrefs,
+    buildExportDocument, exportDocument, loadExportPrefs, saveExportPrefs, themeFromPrefs
+} from "./brief-export";
+import { Question, Turn } from "./types";
+import { continuesTurn, formatTranscriptMarkdown, formatTime, mergeFragment, speakerLabel } from "./transcript";
+import { BriefCoverage, BriefSchema, DEFAULT_BRIEF_SCHEMA, describeGaps, describeSchema, scoreBrief } from "./brief-schema";
+import { normalizeHeading } from "./spec-sections";
+import { BriefToolContext, createBriefToolRegistry } from "./brief-tools";
+import { RevisionSource, SOURCE_LABELS, SpecRevision, createRevision, diffLines, pushRevision } from "./spec-versions";
+import {
+    BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE, INITIAL_SPEC, InterviewTemplate,
+    loadUserTemplates, parseTemplate, saveUserTemplates, serializeTemplate, templatePrompt, templateSchema
+} from "./templates";
+import ReactMarkdown, { defaultUrlTransform } from "react-markdown";
 import { motion, AnimatePresence } from "framer-motion";
 
 /**
@@ -10,69 +35,318 @@ import { motion, AnimatePresence } from "framer-motion";
  * ============================================================================
  */
 const API_KEY = process.env.API_KEY || "";
+// Overridable for offline tests in dev builds only, e.g. ?liveEndpoint=ws://127.0.0.1:9300
+const LIVE_ENDPOINT = (process.env.ALLOW_LIVE_ENDPOINT_OVERRIDE === "true" && new URLSearchParams(location.search).get("liveEndpoint"))
+    || process.env.LIVE_ENDPOINT || undefined;
+// When set, the key stays on the backend proxy (server.ts) and the browser only holds short-lived tokens
+const LIVE_PROXY_URL = LIVE_ENDPOINT ? undefined : process.env.LIVE_PROXY_URL || undefined;
+const RESUME_TRANSCRIPT_TURNS = 12;
+const AUTOSAVE_DELAY = 800;
 
-const PM_SYSTEM = `
-You are a visionary Design Partner. Your goal is to extract a bold, clear vision from the user for their software idea.
-Protocol:
-1. Listen intently.
-2. If the user's idea is vague, ask 1 provocative question at a time.
-3. If the idea is solid, compliment it.
-4. Keep spoken responses short, punchy, and inspiring. Avoid corporate jargon.
+const withSchema = (system: string, schema: BriefSchema) => `${system}
+The brief should be organised into these sections:
+${describeSchema(schema)}
+Tool responses report which sections are still missing. Aim askFollowUpQuestions at those gaps first.
 `;
 
+const primeWithBrief = (system: string, spec: string, skeleton: string) => {
+    if (spec === INITIAL_SPEC) return system;
+    if (spec === skeleton) return `${system}
+The brief starts from this skeleton. Fill its sections as the interview progresses:
+${spec}
+`;
+    return `${system}
+You are continuing an earlier discovery session with this client. Build on the brief captured so far instead of starting over, and focus on what is still missing:
+${spec}
+`;
+};
+
+const seedQuestions = (texts: string[]): Question[] => texts.map(text => ({
+    id: Math.random().toString(36).slice(2), text, answered: false
+}));
+
+const sessionStore = new SessionStore();
+const briefTools = createBriefToolRegistry();
+
+// Microphone, volume and frame rate are properties of this machine, not of a session
+const AUDIO_PREFS_KEY = "specbridge.audio";
+
+interface AudioPrefs {
+    input: InputSettings;
+    volume: number;
+    /** Keep a local recording of both sides of the conversation. */
+    record: boolean;
+    /** Frames per second sent while sharing the screen or camera. */
+    frameRate: number;
+}
+
+const loadAudioPrefs = (): AudioPrefs => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(AUDIO_PREFS_KEY) || "{}");
+        return {
+            input: { ...DEFAULT_INPUT_SETTINGS, ...saved.input },
+            volume: saved.volume ?? 1,
+            record: !!saved.record,
+            frameRate: clampFrameRate(saved.frameRate ?? DEFAULT_FRAME_RATE)
+        };
+    } catch {
+        return { input: DEFAULT_INPUT_SETTINGS, volume: 1, record: false, frameRate: DEFAULT_FRAME_RATE };
+    }
+};
+
+const saveAudioPrefs = (prefs: AudioPrefs) => localStorage.setItem(AUDIO_PREFS_KEY, JSON.stringify(prefs));
+
 /**
  * ============================================================================
  * HOOKS (LOGIC LAYER)
  * ============================================================================
  */
 function useSpecAgent() {
-    const [history, setHistory] = useState<{role:string, text:string}[]>([]);
-    const [spec, setSpec] = useState("# Untitled Vision\n\nWaiting for input...");
-    const [questions, setQuestions] = useState<{id:string, text:string, answered:boolean}[]>([]);
-    const [status, setStatus] = useState<"idle"|"listening"|"speaking">("idle");
+    const [history, setHistory] = useState<Turn[]>([]);
+    const [spec, setSpec] = useState(INITIAL_SPEC);
+    const [revisions, setRevisions] = useState<SpecRevision[]>(() => [createRevision(INITIAL_SPEC, "initial")]);
+    const [questions, setQuestions] = useState<Question[]>([]);
+    const [status, setStatus] = useState<"idle"|"listening"|"speaking"|"reconnecting">("idle");
     const [isDevGen, setIsDevGen] = useState(false);
     const [error, setError] = useState<string|null>(null);
+    const [sessionId, setSessionId] = useState<string|null>(null);
+    const [clientName, setClientName] = useState("");
+    const [sessions, setSessions] = useState<StoredSession[]>([]);
+    const [activeQ, setActiveQ] = useState<string|null>(null);
+    const [highlight, setHighlight] = useState<{ heading: string, at: number } | null>(null);
+    const [schema, setSchema] = useState<BriefSchema>(DEFAULT_BRIEF_SCHEMA);
+    const [template, setTemplate] = useState<InterviewTemplate>(DEFAULT_TEMPLATE);
+    const [userTemplates, setUserTemplates] = useState<InterviewTemplate[]>(loadUserTemplates);
+    const [inputMode, setInputMode] = useState<InputMode>("vad");
+    const [talking, setTalking] = useState(false);
+    const [audioPrefs, setAudioPrefs] = useState<AudioPrefs>(loadAudioPrefs);
+    const [muted, setMuted] = useState(false);
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+    const [recording, setRecording] = useState<SessionRecorder | null>(null);
+    const [imports, setImports] = useState<ImportedDocument[]>([]);
+    const [moodboard, setMoodboard] = useState<MoodboardImage[]>([]);
+    const [participants, setParticipants] = useState<Participant[]>([]);
+    const [speakerId, setSpeakerId] = useState<string | null>(null);
+    const [video, setVideo] = useState<{ source: VideoSource, stream: MediaStream } | null>(null);
+    const coverage = useMemo(() => scoreBrief(spec, schema), [spec, schema]);
     
+    const createdAtRef = useRef(0);
+    const skipSaveRef = useRef(false);
     const clientRef = useRef<LiveClient | null>(null);
+    const recorderRef = useRef<SessionRecorder | null>(null);
+    // Level updates arrive ~20 times a second, so the meter subscribes directly instead of going through state
+    const levelListenersRef = useRef(new Set<(level: number, speech: boolean) => void>());
+    const devSpecTransportRef = useRef<DevSpecTransport>(
+        LIVE_PROXY_URL ? new ProxyTransport(LIVE_PROXY_URL, () => fetchProxyToken(LIVE_PROXY_URL)) : new GenAITransport(API_KEY)
+    );
+    const devSpecCacheRef = useRef<{ brief: string, text: string } | null>(null);
+    // Moodboard ids handed out so far; saved with the session so ids the brief cites are never reused
+    const imageCounterRef = useRef(0);
+
+    // Latest values for callbacks that outlive a render (e.g. reconnect priming)
+    const specRef = useRef(spec);
+    const historyRef = useRef(history);
+    const activeQRef = useRef(activeQ);
+    const schemaRef = useRef(schema);
+    const templateRef = useRef(template);
+    const inputModeRef = useRef(inputMode);
+    const audioPrefsRef = useRef(audioPrefs);
+    const importsRef = useRef(imports);
+    const moodboardRef = useRef(moodboard);
+    const participantsRef = useRef(participants);
+    const speakerIdRef = useRef(speakerId);
+    importsRef.current = imports;
+    moodboardRef.current = moodboard;
+    participantsRef.current = participants;
+    speakerIdRef.current = speakerId;
+    inputModeRef.current = inputMode;
+    audioPrefsRef.current = audioPrefs;
+    specRef.current = spec;
+    templateRef.current = template;
+    schemaRef.current = schema;
+    historyRef.current = history;
+    activeQRef.current = activeQ;
+
+    // Every spec change goes through here so it lands in the revision history
+    const commitSpec = (content: string, source: RevisionSource, label = "") => {
+        // Keep the ref current so several tool calls in one message build on each other
+        specRef.current = content;
+        setSpec(content);
+        setRevisions(prev => pushRevision(prev, createRevision(content, source, label)));
+    };
+
+    // Attached to tool responses so the model always knows what the brief still lacks
+    const gapReport = () => {
+        const c = scoreBrief(specRef.current, schemaRef.current);
+        return { coverage: `${Math.round(c.score * 100)}%`, missing: describeGaps(c) };
+    };
+
+    const toolContext: BriefToolContext = {
+        getSpec: () => specRef.current,
+        commitSpec: (content, label) => commitSpec(content, "tool", label),
+        highlight: heading => setHighlight({ heading, at: Date.now() }),
+        mergeQuestions: texts => mergeQuestions(texts),
+        unansweredQuestions: () => questionsRef.current.filter(q => !q.answered).map(q => q.text),
+        tagImage: (id, tag, reason) => {
+            if (!moodboardRef.current.some(img => img.id === id)) {
+                throw new Error(`No reference image "${id}". Known images: ${moodboardRef.current.map(img => img.id).join(", ") || "none"}`);
+            }
+            changeMoodboard(moodboardRef.current.map(img => img.id === id ? { ...img, tag, reason } : img), "tool", `tagImage: ${id}`);
+        },
+        gapReport: () => gapReport()
+    };
+
+    // Transcription arrives in fragments; they are merged into the open turn until the speaker changes
+    const openTurnRef = useRef<Turn | null>(null);
+
+    const appendTranscript = (role: Turn["role"], fragment: string) => {
+        if (!fragment) return;
+        const speaker = role === "user" ? currentSpeaker()?.name : undefined;
+        const open = openTurnRef.current;
+        const turn: Turn = {
+            id: Math.random().toString(36).slice(2),
+            role,
+            text: fragment,
+            timestamp: Date.now(),
+            questionId: activeQRef.current,
+            ...(speaker ? { speaker } : {})
+        };
+        if (!continuesTurn(open, turn)) openTurnRef.current = turn;
+        setHistory(prev => mergeFragment(prev, open, turn));
+    };
+
+    // --- Answers ---
+
+    // Speech transcribed while a card is active, recorded as its answer once the turn completes
+    const pendingAnswerRef = useRef<{ questionId: string, text: string } | null>(null);
+    const questionsRef = useRef(questions);
+    questionsRef.current = questions;
+
+    const recordAnswer = (questionId: string, answer: string, via: Question["answeredVia"]) => {
+        setQuestions(prev => prev.map(q => q.id === questionId
+            ? { ...q, answered: true, answer: answer.trim(), answeredAt: Date.now(), answeredVia: via }
+            : q
+        ));
+    };
+
+    const trackSpokenAnswer = (fragment: string) => {
+        const questionId = activeQRef.current;
+        if (!questionId) return;
+        const pending = pendingAnswerRef.current;
+        pendingAnswerRef.current = pending?.questionId === questionId
+            ? { questionId, text: pending.text + fragment }
+            : { questionId, text: fragment };
+    };
+
+    const flushSpokenAnswer = (client: LiveClient) => {
+        const pending = pendingAnswerRef.current;
+        pendingAnswerRef.current = null;
+        const q = pending && questionsRef.current.find(q => q.id === pending.questionId);
+        if (!pending || !q || q.answered || !pending.text.trim()) return;
+        recordAnswer(q.id, pending.text, "voice");
+        client.sendContext(`[Answer recorded] The client's last spoken reply answers the question card: "${q.text}"`);
+    };
+
+    /** Merges newly proposed questions into the deck, keeping earlier ones and skipping duplicates. */
+    const mergeQuestions = (texts: string[]) => {
+        setQuestions(prev => {
+            const seen = new Set(prev.map(q => q.text.trim().toLowerCase()));
+            const added = texts
+                .filter(t => t.trim() && !seen.has(t.trim().toLowerCase()))
+                .map(text => ({ id: Math.random().toString(36).slice(2), text, answered: false }));
+            return [...prev, ...added];
+        });
+    };
 
     const connect = () => {
         if (clientRef.current) return;
         setError(null);
         
-        const client = new LiveClient(API_KEY, (msg) => {
-            // Handle turn completion
-            if (msg.serverContent?.turnComplete) {
-                setStatus("listening");
-            }
+        const client = new LiveClient(API_KEY, LIVE_PROXY_URL ? proxyLiveEndpoint(LIVE_PROXY_URL) : LIVE_ENDPOINT);
 
-            // Handle disconnection
-            if (msg.connectionState === "disconnected") {
+        // Transcription of both sides
+        client.on("inputTranscription", text => {
+            appendTranscript("user", text);
+            trackSpokenAnswer(text);
+        });
+        client.on("outputTranscription", text => appendTranscript("model", text));
+
+        client.on("turnComplete", () => {
+            openTurnRef.current = null;
+            flushSpokenAnswer(client);
+            // Audio is scheduled ahead, so playback may still be running when the turn completes
+            setStatus(s => s === "speaking" || s === "reconnecting" ? s : "listening");
+        });
+
+        // Drive "speaking" from real playback, so barge-in flips straight back to listening
+        client.on("playback", state => {
+            if (state === "playing") setStatus(s => s === "idle" ? s : "speaking");
+            else setStatus(s => s === "speaking" ? "listening" : s);
+        });
+
+        client.on("audioError", message => setError("Microphone unavailable: " + message));
+
+        client.on("connectionState", ({ state, error }) => {
+            if (state === "reconnecting") {
+                setStatus("reconnecting");
+            } else if (state === "connected") {
+                setStatus("listening");
+                setError(null);
+                // Every connection is a new model session, so shared documents and images go out each time
+                importsRef.current.forEach(doc => client.sendContext(importContext(doc)));
+                moodboardRef.current.forEach(img => shareImage(client, img));
+                if (client.video.source) client.sendContext(videoContext(client.video.source, true));
+                if (participantsRef.current.length) client.sendContext(workshopContext(participantsRef.current, currentSpeaker()));
+            } else {
                 setStatus("idle");
                 clientRef.current = null;
-                if (msg.error) setError(msg.error);
+                recorderRef.current?.pause();
+                if (error) setError(error);
             }
+        });
 
-            // Handle tool calls
-            if (msg.toolCall) {
-                const calls = msg.toolCall.functionCalls;
-                if (calls) {
-                    calls.forEach((call: any) => {
-                        if (call.name === "updateSpec") {
-                            setSpec(call.args.content);
-                            client.sendToolResponse(call.id, "updateSpec", { success: true });
-                        } else if (call.name === "askFollowUpQuestions") {
-                            const newQs = (call.args.qs as string[]).map(t => ({
-                                id: Math.random().toString(36).slice(2), text: t, answered: false
-                            }));
-                            setQuestions(newQs);
-                            client.sendToolResponse(call.id, "askFollowUpQuestions", { success: true });
-                        }
-                    });
-                }
-            }
+        // Sharing keeps running across reconnects; the model is told when it starts and stops
+        let sharing: VideoSource | null = null;
+        client.on("video", source => {
+            if (source || sharing) client.sendContext(videoContext(source ?? sharing!, !!source));
+            sharing = source;
+            setVideo(source && client.video.stream ? { source, stream: client.video.stream } : null);
         });
+
+        // Every call is answered, including unknown tools and bad arguments
+        const tools = briefTools.select(templateRef.current.tools);
+        client.on("toolCall", calls => calls.forEach(call => {
+            client.sendToolResponse(call.id, call.name, tools.run(call, toolContext));
+        }));
+
+        if (LIVE_PROXY_URL) {
+            client.tokenProvider = () => fetchProxyToken(LIVE_PROXY_URL);
+        }
         
-        client.connect(PM_SYSTEM);
+        client.audio.setInputMode(inputModeRef.current);
+        client.audio.inputSettings = audioPrefsRef.current.input;
+        client.audio.setVolume(audioPrefsRef.current.volume);
+        client.video.frameRate = audioPrefsRef.current.frameRate;
+        if (audioPrefsRef.current.record) client.audio.recorder = startRecorder();
+        client.audio.onLevel = (level, speech) => levelListenersRef.current.forEach(fn => fn(level, speech));
+
+        client.resumeContext = () => {
+            const recent = historyRef.current
+                .slice(-RESUME_TRANSCRIPT_TURNS)
+                .map(t => `${t.role.toUpperCase()}${t.speaker ? ` (${t.speaker})` : ""}: ${t.text}`)
+                .join("\n");
+            return `CURRENT BRIEF:\n${specRef.current}\n\nRECENT CONVERSATION:\n${recent || "(none yet)"}`;
+        };
+        // Audio carries no name, so in a workshop every spoken turn is labelled as it ends
+        client.turnContext = () => {
+            const speaker = currentSpeaker();
+            return speaker ? spokenTurnContext(speaker) : null;
+        };
+        const t = templateRef.current;
+        client.connect(
+            primeWithBrief(withSchema(templatePrompt(t), schemaRef.current), specRef.current, t.briefSkeleton),
+            { voice: t.persona.voice, tools: tools.declarations() }
+        );
         clientRef.current = client;
         setStatus("listening");
     };
@@ -80,39 +354,469 @@ function useSpecAgent() {
     const disconnect = () => {
         clientRef.current?.disconnect();
         clientRef.current = null;
+        recorderRef.current?.pause();
         setStatus("idle");
+        setTalking(false);
+        setMuted(false);
+        setVideo(null);
+    };
+
+    // --- Recording ---
+
+    // One recording per session; it keeps growing across reconnects
+    const startRecorder = () => {
+        if (!recorderRef.current) {
+            recorderRef.current = new SessionRecorder();
+            setRecording(recorderRef.current);
+        }
+        recorderRef.current.resume();
+        return recorderRef.current;
+    };
+
+    const setRecordAudio = (record: boolean) => {
+        updateAudioPrefs({ ...audioPrefsRef.current, record });
+        const client = clientRef.current;
+        if (!client) return;
+        if (record) {
+            client.audio.recorder = startRecorder();
+        } else {
+            client.audio.recorder = null;
+            recorderRef.current?.pause();
+        }
+    };
+
+    const renderRecording = (layout: RecordingLayout) => {
+        const rec = recorderRef.current;
+        return rec && !rec.isEmpty ? rec.render(layout) : null;
+    };
+
+    // --- Input Mode ---
+
+    const changeInputMode = (mode: InputMode) => {
+        setInputMode(mode);
+        setTalking(false);
+        clientRef.current?.audio.setInputMode(mode);
+    };
+
+    const pushToTalk = (on: boolean) => {
+        if (inputModeRef.current !== "ptt" || !clientRef.current) return;
+        clientRef.current.audio.setTalking(on);
+        setTalking(on);
+    };
+
+    // --- Audio Devices ---
+
+    const updateAudioPrefs = (prefs: AudioPrefs) => {
+        setAudioPrefs(prefs);
+        saveAudioPrefs(prefs);
+    };
+
+    const changeInputSettings = (input: InputSettings) => {
+        updateAudioPrefs({ ...audioPrefsRef.current, input });
+        clientRef.current?.audio.setInputSettings(input)
+            .catch((e: any) => setError("Could not switch microphone: " + (e?.message || "unknown error")));
+    };
+
+    const changeVolume = (volume: number) => {
+        updateAudioPrefs({ ...audioPrefsRef.current, volume });
+        clientRef.current?.audio.setVolume(volume);
+    };
+
+    const toggleMute = () => {
+        const next = !muted;
+        setMuted(next);
+        clientRef.current?.audio.setMuted(next);
+    };
+
+    const refreshDevices = async () => {
+        try {
+            const list = await listInputDevices();
+            setDevices(list);
+            // The chosen microphone was unplugged: follow the system default.
+            // Ids are blank until permission is granted, so an anonymous list proves nothing.
+            const { input } = audioPrefsRef.current;
+            const identified = list.some(d => d.deviceId);
+            if (identified && input.deviceId && !list.some(d => d.deviceId === input.deviceId)) {
+                changeInputSettings({ ...input, deviceId: "" });
+            }
+        } catch (e) {
+            console.error("Could not list microphones", e);
+        }
+    };
+
+    useEffect(() => {
+        navigator.mediaDevices?.addEventListener("devicechange", refreshDevices);
+        return () => navigator.mediaDevices?.removeEventListener("devicechange", refreshDevices);
+    }, []);
+
+    // Device labels are only exposed once microphone permission is granted
+    const live = status !== "idle";
+    useEffect(() => {
+        refreshDevices();
+    }, [live]);
+
+    const subscribeLevel = (fn: (level: number, speech: boolean) => void) => {
+        levelListenersRef.current.add(fn);
+        return () => { levelListenersRef.current.delete(fn); };
+    };
+
+    // --- Screen & Camera ---
+
+    const startVideo = (source: VideoSource) => {
+        const client = clientRef.current;
+        if (!client) return;
+        client.startVideo(source).catch((e: any) => {
+            // Closing the browser's screen picker is a choice, not a failure
+            if (source === "screen" && e?.name === "NotAllowedError") return;
+            setError(`Could not share your ${source}: ` + (e?.message || "unknown error"));
+        });
+    };
+
+    const stopVideo = () => clientRef.current?.stopVideo();
+
+    const changeFrameRate = (frameRate: number) => {
+        updateAudioPrefs({ ...audioPrefsRef.current, frameRate });
+        clientRef.current?.video.setFrameRate(frameRate);
+    };
+
+    // Reuses the last technical spec while the brief is unchanged
+    const techSpecForBrief = async () => {
+        const cached = devSpecCacheRef.current;
+        if (cached?.brief === spec) return cached.text;
+        const conversation = [
+            ...history,
+            ...questions.map(q => ({ role: "question", text: q.text }))
+        ];
+        const text = await generateTechSpec(devSpecTransportRef.current, spec, conversation);
+        devSpecCacheRef.current = { brief: spec, text };
+        return text;
     };
 
     const generateDevSpec = async () => {
         setIsDevGen(true);
-        // Placeholder for dev spec generation (could use REST API or LiveClient text turn)
-        // For now, we just simulate it or you could wire up a separate REST call if needed
-        // Since we are in Live mode, we might want to just use the current spec content.
-        setIsDevGen(false);
-        return spec; 
+        setError(null);
+        try {
+            return await techSpecForBrief();
+        } catch (e: any) {
+            console.error("Dev spec generation failed", e);
+            setError("Technical spec failed: " + (e?.message || "unknown error"));
+            return null;
+        } finally {
+            setIsDevGen(false);
+        }
+    };
+
+    const generateBacklog = async (includeTechSpec: boolean) => {
+        setIsDevGen(true);
+        setError(null);
+        try {
+            const techSpec = includeTechSpec ? await techSpecForBrief() : null;
+            const open = questions.filter(q => !q.answered).map(q => q.text);
+            return await generateBacklogFromBrief(devSpecTransportRef.current, spec, techSpec, open);
+        } catch (e: any) {
+            console.error("Backlog generation failed", e);
+            setError("Backlog failed: " + (e?.message || "unknown error"));
+            return null;
+        } finally {
+            setIsDevGen(false);
+        }
     };
 
-    const sendText = (text: string) => {
+    const sendText = (text: string, modelText = text) => {
+        openTurnRef.current = null;
+        appendTranscript("user", text);
+        openTurnRef.current = null;
         if (status === "idle") connect();
         // Small delay to ensure connection if idle
+        // In a workshop the model needs to know who typed it
+        const speaker = currentSpeaker();
         setTimeout(() => {
-            clientRef.current?.sendText(text);
+            clientRef.current?.sendText(speaker ? attributedText(speaker, modelText) : modelText);
         }, status === "idle" ? 1000 : 0);
     };
 
+    const answerQuestion = (questionId: string, text: string) => {
+        const q = questions.find(q => q.id === questionId);
+        if (!q) return;
+        pendingAnswerRef.current = null;
+        sendText(text, `[Answer to question card: "${q.text}"]\n${text}`);
+        recordAnswer(questionId, text, "text");
+    };
+
+    const rollbackTo = (revisionId: string) => {
+        const index = revisions.findIndex(r => r.id === revisionId);
+        if (index < 0) return;
+        const target = revisions[index];
+        commitSpec(target.content, "rollback", `Reverted to v${index + 1}`);
+        clientRef.current?.sendContext(
+            `[Brief reverted] The client rolled the design brief back to an earlier version. This is now the current brief; build on it and do not reintroduce the discarded changes unless asked:\n${target.content}`
+        );
+    };
+
+    const saveManualEdit = (content: string) => {
+        commitSpec(content, "manual", "Edited brief");
+        clientRef.current?.sendContext(
+            `[Brief edited] The designer corrected the design brief by hand. This is now the authoritative brief; base every later updateSpec call on it and keep these corrections:\n${content}`
+        );
+    };
+
+    // --- Imports ---
+
+    /**
+     * Seeds the session from a document the client brought: as the starting
+     * brief, as context for the live model, or both.
+     */
+    const importDocument = (doc: ImportedDocument, { asBrief, share }: { asBrief: boolean, share: boolean }) => {
+        const client = clientRef.current;
+        if (asBrief) {
+            const brief = briefFromImport(doc);
+            commitSpec(brief, "import", `Imported ${doc.name}`);
+            client?.sendContext(
+                `[Brief imported] The design brief was replaced with one imported from "${doc.name}". This is now the current brief; build on it and ask about what it is missing:\n${brief}`
+            );
+        }
+        if (share) {
+            setImports(prev => [...prev, doc]);
+            client?.sendContext(importContext(doc));
+        }
+    };
+
+    const removeImport = (id: string) => setImports(prev => prev.filter(d => d.id !== id));
+
+    // --- Moodboard ---
+
+    const shareImage = (client: LiveClient, image: MoodboardImage) => {
+        client.sendContext(imageContext(image));
+        client.sendImage("image/jpeg", imageData(image));
+    };
+
+    // The brief's Moodboard section follows the images
+    const changeMoodboard = (next: MoodboardImage[], source: RevisionSource, label: string) => {
+        moodboardRef.current = next;
+        setMoodboard(next);
+        commitSpec(syncMoodboard(specRef.current, next), source, label);
+    };
+
+    const addImages = async (files: File[]) => {
+        for (const file of files) {
+            try {
+                const { id, counter } = nextImageId(moodboardRef.current, imageCounterRef.current);
+                imageCounterRef.current = counter;
+                const image = await prepareImage(file, file.name || "Pasted image", id);
+                changeMoodboard([...moodboardRef.current, image], "import", `Added ${image.id}`);
+                if (clientRef.current) shareImage(clientRef.current, image);
+            } catch (e: any) {
+                setError("Image not added: " + (e?.message || "unknown error"));
+            }
+        }
+    };
+
+    const updateImage = (id: string, patch: Partial<MoodboardImage>) => {
+        changeMoodboard(moodboardRef.current.map(img => img.id === id ? { ...img, ...patch } : img), "manual", `Edited ${id}`);
+    };
+
+    const removeImage = (id: string) => {
+        changeMoodboard(moodboardRef.current.filter(img => img.id !== id), "manual", `Removed ${id}`);
+    };
+
+    // --- Workshop ---
+
+    const currentSpeaker = () => participantsRef.current.find(p => p.id === speakerIdRef.current) ?? null;
+
+    const changeParticipants = (next: Participant[]) => {
+        const speaker = next.find(p => p.id === speakerIdRef.current) ?? next[0] ?? null;
+        participantsRef.current = next;
+        speakerIdRef.current = speaker?.id ?? null;
+        setParticipants(next);
+        setSpeakerId(speaker?.id ?? null);
+        if (next.length) clientRef.current?.sendContext(workshopContext(next, speaker));
+    };
+
+    const switchSpeaker = (id: string) => {
+        const speaker = participantsRef.current.find(p => p.id === id);
+        if (!speaker || id === speakerIdRef.current) return;
+        speakerIdRef.current = id;
+        setSpeakerId(id);
+        clientRef.current?.sendContext(speakerContext(speaker));
+    };
+
+    const refreshSessions = async () => {
+        try {
+            setSessions(await sessionStore.list());
+        } catch (e) {
+            console.error("Failed to list sessions", e);
+        }
+    };
+
+    // --- Templates ---
+
+    const allTemplates = [...BUILT_IN_TEMPLATES, ...userTemplates];
+    const isPristine = history.length === 0 && revisions.length <= 1 && imports.length === 0 && moodboard.length === 0
+        && questions.every(q => !q.answered && template.seedQuestions.includes(q.text));
+
+    const applyTemplate = (t: InterviewTemplate) => {
+        setTemplate(t);
+        setSchema(templateSchema(t));
+        setSpec(t.briefSkeleton);
+        setRevisions([createRevision(t.briefSkeleton, "initial", t.name)]);
+        setQuestions(seedQuestions(t.seedQuestions));
+    };
+
+    const selectTemplate = (id: string) => {
+        const t = allTemplates.find(t => t.id === id);
+        if (t && status === "idle") applyTemplate(t);
+    };
+
+    const importTemplate = async (file: File) => {
+        try {
+            const t = parseTemplate(await file.text());
+            if (BUILT_IN_TEMPLATES.some(b => b.id === t.id)) t.id = `${t.id}-custom`;
+            const next = [...userTemplates.filter(u => u.id !== t.id), t];
+            saveUserTemplates(next);
+            setUserTemplates(next);
+            if (isPristine && status === "idle") applyTemplate(t);
+        } catch (e: any) {
+            setError("Template import failed: " + (e?.message || "unknown error"));
+        }
+    };
+
+    const exportTemplate = () => ({ name: `${template.id}.json`, content: serializeTemplate(template) });
+
+    // --- Session persistence ---
+
+    const resetSession = (session: StoredSession | null) => {
+        disconnect();
+        // Loading a stored session is not an edit, so it must not bump updatedAt
+        skipSaveRef.current = !!session;
+        setSessionId(session?.id ?? null);
+        createdAtRef.current = session?.createdAt ?? 0;
+        setClientName(session?.clientName ?? "");
+        if (session) {
+            const t = allTemplates.find(t => t.id === session.templateId) ?? DEFAULT_TEMPLATE;
+            setTemplate(t);
+            setSchema(templateSchema(t));
+            setSpec(session.spec);
+            setRevisions(session.revisions?.length ? session.revisions : [createRevision(session.spec, "initial")]);
+            setQuestions(session.questions);
+            setHistory(session.history);
+            setImports(session.imports ?? []);
+            setMoodboard(session.moodboard ?? []);
+            imageCounterRef.current = session.imageCounter ?? 0;
+            setParticipants(session.participants ?? []);
+            setSpeakerId(session.participants?.[0]?.id ?? null);
+            changeInputMode(session.inputMode ?? "vad");
+        } else {
+            applyTemplate(templateRef.current);
+            setHistory([]);
+            setImports([]);
+            setMoodboard([]);
+            imageCounterRef.current = 0;
+            setParticipants([]);
+            setSpeakerId(null);
+        }
+        setActiveQ(null);
+        openTurnRef.current = null;
+        // Recordings live in memory only and belong to the session being left
+        recorderRef.current = null;
+        setRecording(null);
+        if (clientRef.current) clientRef.current.audio.recorder = audioPrefsRef.current.record ? startRecorder() : null;
+    };
+
+    const openSession = async (id: string) => {
+        try {
+            const session = await sessionStore.get(id);
+            if (!session) throw new Error("Session not found");
+            resetSession(session);
+        } catch (e: any) {
+            setError("Could not open session: " + (e?.message || "unknown error"));
+        }
+    };
+
+    const deleteSession = async (id: string) => {
+        try {
+            await sessionStore.delete(id);
+            if (id === sessionId) resetSession(null);
+            await refreshSessions();
+        } catch (e: any) {
+            setError("Could not delete session: " + (e?.message || "unknown error"));
+        }
+    };
+
+    useEffect(() => {
+        refreshSessions();
+    }, []);
+
+    // Autosave once the interview has any content
+    useEffect(() => {
+        if (!sessionId && isPristine) return;
+        if (skipSaveRef.current) {
+            skipSaveRef.current = false;
+            return;
+        }
+
+        const timer = setTimeout(async () => {
+            const id = sessionId ?? createSessionId();
+            const now = Date.now();
+            if (!createdAtRef.current) createdAtRef.current = now;
+            try {
+                await sessionStore.put({
+                    id,
+                    title: titleFromSpec(spec),
+                    clientName,
+                    createdAt: createdAtRef.current,
+                    updatedAt: now,
+                    spec,
+                    questions,
+                    history,
+                    revisions,
+                    templateId: template.id,
+                    inputMode,
+                    imports,
+                    moodboard,
+                    imageCounter: imageCounterRef.current,
+                    participants
+                });
+                if (!sessionId) setSessionId(id);
+                refreshSessions();
+            } catch (e) {
+                console.error("Autosave failed", e);
+            }
+        }, AUTOSAVE_DELAY);
+        return () => clearTimeout(timer);
+    }, [spec, questions, history, revisions, clientName, sessionId, template, inputMode, imports, moodboard, participants]);
+
     useEffect(() => {
         (window as any).specBridgeDebug = {
             setQuestions,
             setStatus,
-            setSpec
+            setSpec: (content: string) => commitSpec(content, "manual", "debug"),
+            setDevSpecTransport: (t: DevSpecTransport) => {
+                devSpecTransportRef.current = t;
+                devSpecCacheRef.current = null;
+            }
         };
     }, []);
 
     return {
-        spec, status, questions, isDevGen, error,
+        spec, status, questions, history, isDevGen, error, setError, highlight,
+        schema, setSchema, coverage,
+        template, templates: allTemplates, isPristine, selectTemplate, importTemplate, exportTemplate,
+        revisions, rollbackTo, saveManualEdit,
+        activeQ, setActiveQ,
+        inputMode, changeInputMode, talking, pushToTalk, subscribeLevel,
+        audioPrefs, devices, muted, changeInputSettings, changeVolume, toggleMute,
+        recording, setRecordAudio, renderRecording,
+        video, startVideo, stopVideo, changeFrameRate,
+        imports, importDocument, removeImport,
+        moodboard, addImages, updateImage, removeImage,
+        participants, speakerId, changeParticipants, switchSpeaker,
         toggle: () => status === "idle" ? connect() : disconnect(),
-        generateDevSpec,
-        sendText
+        generateDevSpec, generateBacklog,
+        sendText: (text: string) => sendText(text),
+        answerQuestion,
+        sessionId, sessions, clientName, setClientName,
+        openSession, deleteSession,
+        newSession: () => resetSession(null)
     };
 }
 
@@ -137,6 +841,18 @@ const Icons = {
     ArrowRight: () => (
         <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="5" y1="12" x2="19" y2="12"/><polyline points="12 5 19 12 12 19"/></svg>
     ),
+    Stack: () => (
+        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polygon points="12 2 2 7 12 12 22 7 12 2"/><polyline points="2 17 12 22 22 17"/><polyline points="2 12 12 17 22 12"/></svg>
+    ),
+    Sliders: () => (
+        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="4" y1="21" x2="4" y2="14"/><line x1="4" y1="10" x2="4" y2="3"/><line x1="12" y1="21" x2="12" y2="12"/><line x1="12" y1="8" x2="12" y2="3"/><line x1="20" y1="21" x2="20" y2="16"/><line x1="20" y1="12" x2="20" y2="3"/><line x1="1" y1="14" x2="7" y2="14"/><line x1="9" y1="8" x2="15" y2="8"/><line x1="17" y1="16" x2="23" y2="16"/></svg>
+    ),
+    Upload: () => (
+        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" y1="3" x2="12" y2="15"/></svg>
+    ),
+    Users: () => (
+        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"/><circle cx="9" cy="7" r="4"/><path d="M23 21v-2a4 4 0 0 0-3-3.87"/><path d="M16 3.13a4 4 0 0 1 0 7.75"/></svg>
+    ),
     Close: () => (
         <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
     )
@@ -145,31 +861,55 @@ const Icons = {
 // --- Animations & Visualizers ---
 const spring = { type: "spring" as const, stiffness: 300, damping: 30 };
 
-const AudioVisualizer = () => (
-    <div className="visualizer">
-        {[1,2,3,4].map(i => (
-            <motion.div 
-                key={i}
-                className="bar"
-                animate={{ height: [10, 24, 10] }}
-                transition={{ 
-                    duration: 0.5, 
-                    repeat: Infinity, 
-                    delay: i * 0.1,
-                    ease: "easeInOut"
-                }} 
-            />
-        ))}
-        <style>{`
-            .visualizer {
-                display: flex; align-items: center; gap: 4px; height: 40px;
-            }
-            .bar {
-                width: 4px; background: #FF3300; border-radius: 2px;
-            }
-        `}</style>
-    </div>
-);
+// Bar weights give the meter some shape; all bars follow the same input level
+const METER_BARS = [0.5, 0.8, 1, 0.7, 0.45];
+
+const LevelMeter = ({ subscribe }: { subscribe: (fn: (level: number, speech: boolean) => void) => () => void }) => {
+    const [level, setLevel] = useState({ value: 0, speech: false });
+    useEffect(() => subscribe((value, speech) => setLevel({ value, speech })), []);
+
+    // RMS of normal speech sits around 0.02-0.2; the square root spreads that over the meter
+    const amount = Math.min(1, Math.sqrt(level.value) * 2.5);
+    return (
+        <div className={`visualizer ${level.speech ? 'speech' : ''}`} aria-label="Input level">
+            {METER_BARS.map((w, i) => (
+                <div key={i} className="bar" style={{ height: 4 + 36 * amount * w }} />
+            ))}
+            <style>{`
+                .visualizer {
+                    display: flex; align-items: center; gap: 4px; height: 40px;
+                }
+                .bar {
+                    width: 4px; background: #444; border-radius: 2px;
+                    transition: height 0.05s linear, background 0.2s;
+                }
+                .visualizer.speech .bar { background: #FF3300; }
+            `}</style>
+        </div>
+    );
+};
+
+const CoverageMeter = ({ coverage }: { coverage: BriefCoverage }) => {
+    const pct = Math.round(coverage.score * 100);
+    const missing = coverage.gaps.filter(g => g.required).map(g => g.fields.length && !g.empty ? `${g.heading} (${g.fields.join(", ")})` : g.heading);
+    
+    return (
+        <div className="coverage-meter" title={missing.length ? `Missing: ${missing.join(", ")}` : "All required sections covered"}>
+            <div className="coverage-track">
+                <div className="coverage-fill" style={{ width: `${pct}%` }} />
+            </div>
+            <span>{pct}%</span>
+            <style>{`
+                .coverage-meter {
+                    display: flex; align-items: center; gap: 8px;
+                    font-family: 'Manrope', monospace; font-size: 10px; letter-spacing: 2px; color: #888;
+                }
+                .coverage-track { width: 64px; height: 3px; background: #222; border-radius: 2px; overflow: hidden; }
+                .coverage-fill { height: 100%; background: #FF3300; transition: width 0.4s; }
+            `}</style>
+        </div>
+    );
+};
 
 const TextInput = ({ onSend, className = "" }: { onSend: (text: string) => void, className?: string }) => {
     const [text, setText] = useState("");
@@ -217,56 +957,441 @@ const TextInput = ({ onSend, className = "" }: { onSend: (text: string) => void,
     );
 };
 
+// --- Downloads ---
+const download = (name: string, content: BlobPart, type = 'text/markdown') => {
+    const blob = new Blob([content], {type});
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+// --- Template Picker ---
+function TemplatePicker({ template, templates, onSelect, onImport, onExport }: any) {
+    const fileRef = useRef<HTMLInputElement>(null);
+
+    return (
+        <div className="template-picker">
+            <select 
+                value={template.id} 
+                onChange={e => onSelect(e.target.value)}
+                aria-label="Interview template"
+                title={template.description}
+            >
+                {templates.map((t: InterviewTemplate) => (
+                    <option key={t.id} value={t.id}>{t.name}{t.builtIn ? "" : " (custom)"}</option>
+                ))}
+            </select>
+            <button onClick={() => fileRef.current?.click()}>IMPORT</button>
+            <button onClick={onExport}>EXPORT</button>
+            <input 
+                ref={fileRef}
+                type="file" 
+                accept="application/json,.json" 
+                hidden
+                onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) onImport(file);
+                    e.target.value = "";
+                }}
+            />
+            <style>{`
+                .template-picker {
+                    position: absolute; top: 88px; left: 50%; transform: translateX(-50%);
+                    animation: drop-in 0.2s ease-out;
+                    display: flex; gap: 8px; align-items: center; z-index: 60;
+                    font-family: 'Manrope';
+                }
+                .template-picker select {
+                    background: #111; color: white; border: 1px solid #222; border-radius: 16px;
+                    padding: 8px 16px; font-family: 'Manrope'; font-size: 13px; outline: none;
+                }
+                .template-picker button {
+                    background: none; color: #888; border: 1px solid #222; border-radius: 16px;
+                    padding: 8px 14px; font-family: 'Manrope'; font-weight: 700; font-size: 10px;
+                    letter-spacing: 1px; cursor: pointer;
+                }
+                .template-picker button:hover { color: white; border-color: #444; }
+            `}</style>
+        </div>
+    );
+}
+
+// --- Audio Settings ---
+function AudioSettings({ prefs, devices, onInput, onVolume, onRecord, onFrameRate, onClose }: any) {
+    const input: InputSettings = prefs.input;
+    return (
+        <div className="audio-panel">
+            <label>
+                <span>Microphone</span>
+                <select value={input.deviceId} onChange={e => onInput({ ...input, deviceId: e.target.value })}>
+                    <option value="">System default</option>
+                    {devices.map((d: MediaDeviceInfo, i: number) => (
+                        <option key={d.deviceId || i} value={d.deviceId}>{d.label || `Microphone ${i + 1}`}</option>
+                    ))}
+                </select>
+            </label>
+            <label className="check">
+                <input type="checkbox" checked={input.echoCancellation} onChange={e => onInput({ ...input, echoCancellation: e.target.checked })} />
+                <span>Echo cancellation</span>
+            </label>
+            <label className="check">
+                <input type="checkbox" checked={input.noiseSuppression} onChange={e => onInput({ ...input, noiseSuppression: e.target.checked })} />
+                <span>Noise suppression</span>
+            </label>
+            <label>
+                <span>Volume</span>
+                <input type="range" min={0} max={1} step={0.05} value={prefs.volume} onChange={e => onVolume(Number(e.target.value))} />
+            </label>
+            <label className="check">
+                <input type="checkbox" checked={prefs.record} onChange={e => onRecord(e.target.checked)} />
+                <span>Record session audio</span>
+            </label>
+            <label>
+                <span>Screen & camera frames</span>
+                <select value={prefs.frameRate} onChange={e => onFrameRate(Number(e.target.value))}>
+                    {FRAME_RATES.map(fps => (
+                        <option key={fps} value={fps}>{fps === 1 ? "1 frame a second" : fps < 1 ? `1 frame every ${1 / fps} seconds` : `${fps} frames a second`}</option>
+                    ))}
+                </select>
+            </label>
+            <button className="done" onClick={onClose}>DONE</button>
+            <style>{`
+                .audio-panel {
+                    position: absolute; top: 72px; right: 24px; z-index: 70;
+                    animation: drop-in 0.2s ease-out;
+                    width: 260px; padding: 20px;
+                    background: #111; border: 1px solid #222; border-radius: 20px;
+                    display: flex; flex-direction: column; gap: 14px;
+                    font-family: 'Manrope'; font-size: 12px; color: #888;
+                }
+                .audio-panel label { display: flex; flex-direction: column; gap: 6px; }
+                .audio-panel label.check { flex-direction: row; align-items: center; gap: 8px; cursor: pointer; }
+                .audio-panel select {
+                    background: #0a0a0a; color: white; border: 1px solid #222; border-radius: 12px;
+                    padding: 8px 12px; font-family: 'Manrope'; font-size: 12px; outline: none;
+                }
+                .audio-panel input[type=range] { accent-color: #FF3300; }
+                .audio-panel input[type=checkbox] { accent-color: #FF3300; }
+                .audio-panel .done {
+                    align-self: flex-end; background: none; color: #888; border: 1px solid #222;
+                    border-radius: 12px; padding: 6px 12px; font-family: 'Manrope'; font-weight: 700;
+                    font-size: 10px; letter-spacing: 1px; cursor: pointer;
+                }
+                .audio-panel .done:hover { color: white; border-color: #444; }
+            `}</style>
+        </div>
+    );
+}
+
+// --- Moodboard ---
+function MoodboardTray({ images, onAdd, onUpdate, onRemove }: any) {
+    const [selected, setSelected] = useState<string | null>(null);
+    const image: MoodboardImage | undefined = images.find((img: MoodboardImage) => img.id === selected);
+
+    // Text is committed on blur, so a caption is one brief revision rather than one per keystroke
+    const commitText = (field: "caption" | "reason", value: string) => {
+        if (image && value.trim() !== (image[field] ?? "")) onUpdate(image.id, { [field]: value.trim() });
+    };
+
+    return (
+        <div className="moodboard" aria-label="Moodboard">
+            <div className="moodboard-row">
+                {images.map((img: MoodboardImage) => (
+                    <button 
+                        key={img.id} 
+                        className={`moodboard-tile ${img.tag ?? ''} ${selected === img.id ? 'on' : ''}`}
+                        title={`${img.id}: ${img.caption}`}
+                        onClick={() => setSelected(selected === img.id ? null : img.id)}
+                    >
+                        <img src={img.dataUrl} alt={img.caption} />
+                        {img.tag && <span className="moodboard-tag">{IMAGE_TAG_LABELS[img.tag]}</span>}
+                    </button>
+                ))}
+                <label className="moodboard-add" title="Add reference images (or drop / paste them anywhere)">
+                    +
+                    <input 
+                        type="file" 
+                        accept="image/*" 
+                        multiple 
+                        hidden 
+                        onChange={e => {
+                            onAdd(Array.from(e.target.files ?? []));
+                            e.target.value = "";
+                        }} 
+                    />
+                </label>
+            </div>
+
+            {image && (
+                <div className="moodboard-editor">
+                    <span className="moodboard-id">{image.id}</span>
+                    <input 
+                        key={`${image.id}:${image.caption}`}
+                        aria-label="Caption" 
+                        defaultValue={image.caption} 
+                        onBlur={e => commitText("caption", e.target.value)}
+                        onKeyDown={e => e.key === "Enter" && e.currentTarget.blur()}
+                    />
+                    <div className="moodboard-tags">
+                        {(Object.keys(IMAGE_TAG_LABELS) as ImageTag[]).map(tag => (
+                            <button 
+                                key={tag} 
+                                className={image.tag === tag ? 'on' : ''} 
+                                onClick={() => onUpdate(image.id, { tag: image.tag === tag ? undefined : tag })}
+                            >
+                                {IMAGE_TAG_LABELS[tag]}
+                            </button>
+                        ))}
+                        <button onClick={() => { onRemove(image.id); setSelected(null); }}>REMOVE</button>
+                    </div>
+                    {image.tag && (
+                        <input 
+                            key={`${image.id}:${image.reason}`}
+                            aria-label="Reason" 
+                            placeholder="Why?" 
+                            defaultValue={image.reason ?? ""} 
+                            onBlur={e => commitText("reason", e.target.value)}
+                            onKeyDown={e => e.key === "Enter" && e.currentTarget.blur()}
+                        />
+                    )}
+                </div>
+            )}
+            <style>{`
+                .moodboard {
+                    position: absolute; left: 24px; bottom: 24px; z-index: 40;
+                    display: flex; flex-direction: column-reverse; gap: 8px;
+                    font-family: 'Manrope'; font-size: 12px; color: #888;
+                }
+                .moodboard-row { display: flex; gap: 8px; align-items: center; max-width: 40vw; overflow-x: auto; }
+                .moodboard-tile {
+                    position: relative; flex: none; width: 56px; height: 56px; padding: 0;
+                    border: 1px solid #222; border-radius: 12px; overflow: hidden; background: #111; cursor: pointer;
+                }
+                .moodboard-tile img { width: 100%; height: 100%; object-fit: cover; display: block; }
+                .moodboard-tile.on { border-color: white; }
+                .moodboard-tile.like { box-shadow: inset 0 -3px 0 #3ddc84; }
+                .moodboard-tile.avoid { box-shadow: inset 0 -3px 0 #FF3300; }
+                .moodboard-tag {
+                    position: absolute; left: 0; right: 0; bottom: 0; padding: 1px 0;
+                    background: rgba(0,0,0,0.7); color: white; font-size: 9px; letter-spacing: 1px; text-transform: uppercase;
+                }
+                .moodboard-add {
+                    flex: none; width: 56px; height: 56px; border: 1px dashed #333; border-radius: 12px;
+                    display: flex; align-items: center; justify-content: center; font-size: 20px; cursor: pointer;
+                }
+                .moodboard-add:hover { color: white; border-color: #555; }
+                .moodboard-editor {
+                    width: 280px; padding: 12px; background: #111; border: 1px solid #222; border-radius: 16px;
+                    display: flex; flex-direction: column; gap: 8px;
+                }
+                .moodboard-id { font-size: 10px; letter-spacing: 1px; color: #666; }
+                .moodboard-editor input {
+                    background: #0a0a0a; color: white; border: 1px solid #222; border-radius: 10px;
+                    padding: 6px 10px; font-family: 'Manrope'; font-size: 12px; outline: none;
+                }
+                .moodboard-tags { display: flex; gap: 6px; }
+                .moodboard-tags button {
+                    background: none; border: 1px solid #222; border-radius: 10px; color: #888;
+                    padding: 4px 10px; font-family: 'Manrope'; font-size: 10px; letter-spacing: 1px; cursor: pointer;
+                }
+                .moodboard-tags button.on { border-color: #FF3300; color: white; }
+            `}</style>
+        </div>
+    );
+}
+
 // --- Main App ---
 function App() {
-    const { spec, status, questions, toggle, generateDevSpec, isDevGen, sendText, error } = useSpecAgent();
-    const [view, setView] = useState<"chat"|"spec">("chat");
-    const [activeQ, setActiveQ] = useState<string|null>(null);
+    const agent = useSpecAgent();
+    const { spec, status, questions, history, toggle, generateDevSpec, isDevGen, sendText, error, activeQ, setActiveQ } = agent;
+    const [view, setView] = useState<"chat"|"spec"|"sessions">("chat");
+    const [showAudio, setShowAudio] = useState(false);
+    const [showWorkshop, setShowWorkshop] = useState(false);
+    // Files dropped anywhere on the stage open the import dialog with that file
+    const [importing, setImporting] = useState<{ file: File | null } | null>(null);
 
     // Downloads
     const handleExport = async () => {
+        const missing = agent.coverage.missingRequired;
+        if (missing.length && !confirm(`These required sections are still empty:\n\n${missing.join("\n")}\n\nExport anyway?`)) {
+            return;
+        }
         const devSpec = await generateDevSpec();
-        const download = (name: string, content: string) => {
-            const blob = new Blob([content], {type:'text/markdown'});
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = name;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
-        };
-        download("Brief.md", spec);
+        download("Brief.md", `${spec.trim()}\n\n${formatTranscriptMarkdown(history, questions)}\n`);
         if (devSpec) {
              download("Technical_Architecture.md", devSpec);
         }
     };
 
-    return (
-        <div className="stage">
-            {/* Header */}
+    // Branded deliverable chosen in the export dialog
+    const handleDocumentExport = async (prefs: ExportPrefs, clientName: string) => {
+        saveExportPrefs(prefs);
+        const devSpec = prefs.parts.includes("techSpec") ? await generateDevSpec() : null;
+        try {
+            const doc = buildExportDocument({
+                spec, devSpec, history, questions,
+                parts: prefs.parts,
+                clientName,
+                agencyName: prefs.agencyName,
+                logo: prefs.logo,
+                theme: themeFromPrefs(prefs),
+                images: imagesByUrl(agent.moodboard)
+            });
+            const { name, blob } = await exportDocument(doc, prefs.format);
+            download(name, blob, blob.type);
+            return true;
+        } catch (e: any) {
+            console.error("Export failed", e);
+            agent.setError("Export failed: " + (e?.message || "unknown error"));
+            return false;
+        }
+    };
+
+    // Pasted screenshots go straight to the moodboard
+    useEffect(() => {
+        const paste = (e: ClipboardEvent) => {
+            const images = Array.from(e.clipboardData?.files ?? []).filter(f => f.type.startsWith("image/"));
+            if (!images.length) return;
+            e.preventDefault();
+            agent.addImages(images);
+        };
+        window.addEventListener("paste", paste);
+        return () => window.removeEventListener("paste", paste);
+    }, []);
+
+    const handleRecordingDownload = (layout: RecordingLayout) => {
+        const wav = agent.renderRecording(layout);
+        if (wav) download(layout === "tracks" ? "Session_Tracks.wav" : "Session.wav", wav, "audio/wav");
+    };
+
+    return (
+        <div 
+            className="stage"
+            onDragOver={e => {
+                if (e.dataTransfer.types.includes("Files")) e.preventDefault();
+            }}
+            onDrop={e => {
+                const files = Array.from(e.dataTransfer.files);
+                if (!files.length) return;
+                e.preventDefault();
+                // Images go to the moodboard; anything else is a document to import
+                const images = files.filter(f => f.type.startsWith("image/"));
+                const document = files.find(f => !f.type.startsWith("image/"));
+                if (images.length) agent.addImages(images);
+                if (document) setImporting({ file: document });
+            }}
+        >
+            {/* Header */}
             <motion.header 
                 className="header"
                 initial={{ opacity: 0, y: -20 }}
                 animate={{ opacity: 1, y: 0 }}
             >
                 <div className="logo">S/B</div>
-                <div className="status-indicator">
-                    <div className={`dot ${status}`} />
-                    <span>{status.toUpperCase()}</span>
+                <div className="header-status">
+                    <div className="status-indicator">
+                        <div className={`dot ${status}`} />
+                        <span>{status.toUpperCase()}</span>
+                    </div>
+                    {agent.video && (
+                        <div className="video-indicator">
+                            <div className="dot sharing" />
+                            <span>SHARING {agent.video.source.toUpperCase()}</span>
+                            <button aria-label="Stop sharing" onClick={agent.stopVideo}><Icons.Close /></button>
+                        </div>
+                    )}
+                    <CoverageMeter coverage={agent.coverage} />
+                </div>
+                <div className="header-actions">
+                    <button className="icon-btn" aria-label="Import document" onClick={() => setImporting({ file: null })}>
+                        <Icons.Upload />
+                    </button>
+                    <button className="icon-btn" aria-label="Workshop participants" onClick={() => setShowWorkshop(true)}>
+                        <Icons.Users />
+                    </button>
+                    <button className="icon-btn" aria-label="Audio settings" onClick={() => setShowAudio(v => !v)}>
+                        <Icons.Sliders />
+                    </button>
+                    <button className="icon-btn" aria-label="Sessions" onClick={() => setView("sessions")}>
+                        <Icons.Stack />
+                    </button>
+                    <button className="icon-btn" aria-label="Brief" onClick={() => setView("spec")}>
+                        <Icons.Doc />
+                    </button>
                 </div>
-                <button className="icon-btn" onClick={() => setView("spec")}>
-                    <Icons.Doc />
-                </button>
             </motion.header>
 
+            {showAudio && (
+                <AudioSettings
+                    prefs={agent.audioPrefs}
+                    devices={agent.devices}
+                    onInput={agent.changeInputSettings}
+                    onVolume={agent.changeVolume}
+                    onRecord={agent.setRecordAudio}
+                    onFrameRate={agent.changeFrameRate}
+                    onClose={() => setShowAudio(false)}
+                />
+            )}
+
+            {showWorkshop && (
+                <WorkshopDialog
+                    participants={agent.participants}
+                    onSave={(next: Participant[]) => {
+                        agent.changeParticipants(next);
+                        setShowWorkshop(false);
+                    }}
+                    onClose={() => setShowWorkshop(false)}
+                />
+            )}
+
+            {importing && (
+                <ImportDialog
+                    initialFile={importing.file}
+                    pristine={agent.isPristine}
+                    shared={agent.imports}
+                    onImport={(doc: ImportedDocument, options: { asBrief: boolean, share: boolean }) => {
+                        agent.importDocument(doc, options);
+                        setImporting(null);
+                    }}
+                    onRemove={agent.removeImport}
+                    onClose={() => setImporting(null)}
+                />
+            )}
+
             {error && (
                 <div className="error-toast">
                     {error}
                 </div>
             )}
 
+            {/* Template choice is only offered before the interview starts */}
+            {view === "chat" && status === "idle" && agent.isPristine && (
+                <TemplatePicker 
+                    template={agent.template}
+                    templates={agent.templates}
+                    onSelect={agent.selectTemplate}
+                    onImport={agent.importTemplate}
+                    onExport={() => {
+                        const { name, content } = agent.exportTemplate();
+                        download(name, content, 'application/json');
+                    }}
+                />
+            )}
+
+            {view === "chat" && (
+                <MoodboardTray
+                    images={agent.moodboard}
+                    onAdd={agent.addImages}
+                    onUpdate={agent.updateImage}
+                    onRemove={agent.removeImage}
+                />
+            )}
+
             {/* Main Stage */}
             <AnimatePresence mode="wait">
                 {view === "chat" ? (
@@ -279,14 +1404,53 @@ function App() {
                         activeQ={activeQ}
                         setActiveQ={setActiveQ}
                         onSend={sendText}
+                        onAnswer={agent.answerQuestion}
+                        inputMode={agent.inputMode}
+                        onInputMode={agent.changeInputMode}
+                        talking={agent.talking}
+                        onTalk={agent.pushToTalk}
+                        subscribeLevel={agent.subscribeLevel}
+                        muted={agent.muted}
+                        onMute={agent.toggleMute}
+                        video={agent.video}
+                        participants={agent.participants}
+                        speakerId={agent.speakerId}
+                        onSpeaker={agent.switchSpeaker}
+                        onStartVideo={agent.startVideo}
+                        onStopVideo={agent.stopVideo}
+                    />
+                ) : view === "sessions" ? (
+                    <SessionsView
+                        key="sessions"
+                        sessions={agent.sessions}
+                        currentId={agent.sessionId}
+                        clientName={agent.clientName}
+                        onClientName={agent.setClientName}
+                        onOpen={(id: string) => { agent.openSession(id); setView("chat"); }}
+                        onDelete={agent.deleteSession}
+                        onNew={() => { agent.newSession(); setView("chat"); }}
+                        onClose={() => setView("chat")}
                     />
                 ) : (
                     <SpecView 
                         key="spec"
                         spec={spec} 
+                        history={history}
+                        questions={questions}
+                        revisions={agent.revisions}
+                        highlight={agent.highlight}
+                        onRollback={agent.rollbackTo}
+                        onSaveEdit={agent.saveManualEdit}
                         onClose={() => setView("chat")} 
                         onExport={handleExport}
                         isGen={isDevGen}
+                        recording={agent.recording}
+                        renderRecording={agent.renderRecording}
+                        onDownloadRecording={handleRecordingDownload}
+                        clientName={agent.clientName}
+                        onExportDocument={handleDocumentExport}
+                        onGenerateBacklog={agent.generateBacklog}
+                        images={agent.moodboard}
                     />
                 )}
             </AnimatePresence>
@@ -306,6 +1470,8 @@ function App() {
                     z-index: 50;
                 }
                 .logo { font-family: 'Syne', sans-serif; font-weight: 800; font-size: 24px; letter-spacing: -1px; }
+                .header-actions { display: flex; gap: 8px; }
+                .header-status { display: flex; align-items: center; gap: 24px; }
                 .status-indicator {
                     display: flex; align-items: center; gap: 8px;
                     font-family: 'Manrope', monospace; font-size: 10px; letter-spacing: 2px;
@@ -314,6 +1480,18 @@ function App() {
                 .dot { width: 6px; height: 6px; border-radius: 50%; background: #888; transition: 0.3s; }
                 .dot.listening { background: #FF3300; box-shadow: 0 0 10px #FF3300; }
                 .dot.speaking { background: #fff; animation: blink 0.5s infinite; }
+                .dot.reconnecting { background: #FF3300; animation: blink 1s infinite; }
+                .video-indicator {
+                    display: flex; align-items: center; gap: 8px;
+                    font-family: 'Manrope', monospace; font-size: 10px; letter-spacing: 2px; color: white;
+                    border: 1px solid #FF3300; border-radius: 12px; padding: 4px 6px 4px 10px;
+                }
+                .dot.sharing { background: #FF3300; animation: blink 1.5s infinite; }
+                .video-indicator button {
+                    display: flex; background: none; border: none; padding: 0; color: #888; cursor: pointer;
+                }
+                .video-indicator button:hover { color: white; }
+                .video-indicator svg { width: 14px; height: 14px; }
                 .icon-btn {
                     background: none; border: none; color: white; cursor: pointer;
                     width: 40px; height: 40px; display: flex; align-items: center; justify-content: center;
@@ -321,6 +1499,7 @@ function App() {
                 }
                 .icon-btn:hover { background: rgba(255,255,255,0.1); }
                 @keyframes blink { 0%,100%{opacity:1} 50%{opacity:0.3} }
+                @keyframes drop-in { from { opacity: 0; translate: 0 -10px; } }
                 .error-toast {
                     position: absolute; top: 80px; left: 50%; transform: translateX(-50%);
                     background: #FF3300; color: white; padding: 8px 16px;
@@ -333,8 +1512,45 @@ function App() {
 }
 
 // --- Chat / Interaction View ---
-function ChatView({ status, questions, onListen, onStop, activeQ, setActiveQ, onSend }: any) {
-    const isBento = status === "bento" || (questions.length > 0 && !activeQ);
+function ChatView({ status, questions, onListen, onStop, activeQ, setActiveQ, onSend, onAnswer, inputMode, onInputMode, talking, onTalk, subscribeLevel, muted, onMute, video, onStartVideo, onStopVideo, participants, speakerId, onSpeaker }: any) {
+    const isBento = status === "bento" || (questions.some((q: Question) => !q.answered) && !activeQ);
+    const live = status !== "idle";
+    const ptt = inputMode === "ptt";
+
+    // Space bar is the push-to-talk key, except while typing
+    useEffect(() => {
+        if (!ptt || !live) return;
+        const typing = (e: KeyboardEvent) => (e.target as HTMLElement).closest?.("input, textarea, select");
+        const down = (e: KeyboardEvent) => {
+            if (e.code !== "Space" || typing(e)) return;
+            e.preventDefault();
+            if (!e.repeat) onTalk(true);
+        };
+        const up = (e: KeyboardEvent) => {
+            if (e.code !== "Space" || typing(e)) return;
+            e.preventDefault();
+            onTalk(false);
+        };
+        window.addEventListener("keydown", down);
+        window.addEventListener("keyup", up);
+        return () => {
+            window.removeEventListener("keydown", down);
+            window.removeEventListener("keyup", up);
+            onTalk(false);
+        };
+    }, [ptt, live]);
+
+    // Number keys switch the workshop speaker, except while typing
+    useEffect(() => {
+        if (!participants.length) return;
+        const down = (e: KeyboardEvent) => {
+            if ((e.target as HTMLElement).closest?.("input, textarea, select") || e.ctrlKey || e.metaKey || e.altKey) return;
+            const p = participants[Number(e.key) - 1];
+            if (p) onSpeaker(p.id);
+        };
+        window.addEventListener("keydown", down);
+        return () => window.removeEventListener("keydown", down);
+    }, [participants]);
     
     return (
         <motion.div 
@@ -356,8 +1572,9 @@ function ChatView({ status, questions, onListen, onStop, activeQ, setActiveQ, on
                         }}
                     >
                         {status === "idle" && "Tell me your vision"}
-                        {status === "listening" && "Listening..."}
+                        {status === "listening" && (muted ? "Muted" : ptt && !talking ? "Hold to talk" : "Listening...")}
                         {status === "speaking" && "Speaking..."}
+                        {status === "reconnecting" && "Reconnecting..."}
                     </motion.h1>
 
                     {/* Interactive Trigger Area */}
@@ -365,17 +1582,39 @@ function ChatView({ status, questions, onListen, onStop, activeQ, setActiveQ, on
                         className="trigger-zone"
                         whileHover={{ scale: 1.02 }}
                         whileTap={{ scale: 0.95 }}
-                        onClick={() => status === "idle" ? onListen() : onStop()}
+                        onClick={() => !live ? onListen() : !ptt && onStop()}
+                        onPointerDown={() => ptt && live && onTalk(true)}
+                        onPointerUp={() => ptt && onTalk(false)}
+                        onPointerLeave={() => ptt && talking && onTalk(false)}
                     >
-                        {status === "listening" || status === "speaking" ? (
-                             <AudioVisualizer />
+                        {live ? (
+                             <LevelMeter subscribe={subscribeLevel} />
                         ) : (
                              <div className="mic-hint"><Icons.Mic /></div>
                         )}
                     </motion.button>
+
+                    <div className="input-mode">
+                        {(Object.keys(INPUT_MODE_LABELS) as InputMode[]).map(m => (
+                            <button key={m} className={inputMode === m ? 'on' : ''} onClick={() => onInputMode(m)}>
+                                {INPUT_MODE_LABELS[m]}
+                            </button>
+                        ))}
+                        {live && <button className={muted ? 'on' : ''} onClick={onMute}>{muted ? "Unmute" : "Mute"}</button>}
+                        {live && !video && (Object.keys(VIDEO_SOURCE_LABELS) as VideoSource[]).filter(videoSupported).map(source => (
+                            <button key={source} onClick={() => onStartVideo(source)}>
+                                {source === "screen" ? "Share screen" : "Camera"}
+                            </button>
+                        ))}
+                        {ptt && live && <button className="end-session" onClick={onStop}>End</button>}
+                    </div>
                 </div>
             )}
             
+            {video && <VideoTile video={video} onStop={onStopVideo} />}
+
+            {participants.length > 0 && <SpeakerBar participants={participants} speakerId={speakerId} onSpeaker={onSpeaker} />}
+
             {/* Text Input Fallback */}
             {!isBento && !activeQ && (
                 <TextInput onSend={onSend} />
@@ -402,7 +1641,7 @@ function ChatView({ status, questions, onListen, onStop, activeQ, setActiveQ, on
                                     <motion.div
                                         key={q.id}
                                         layoutId={q.id}
-                                        className={`bento-card ${q.answered ? 'answered' : ''} ${isActive ? 'active' : ''}`}
+                                        className={`bento-card ${q.answered && !isActive ? 'answered' : ''} ${isActive ? 'active' : ''}`}
                                         initial={{ opacity: 0, y: 50 }}
                                         animate={{ opacity: 1, y: 0 }}
                                         transition={{ delay: i * 0.1, ...spring }}
@@ -422,10 +1661,11 @@ function ChatView({ status, questions, onListen, onStop, activeQ, setActiveQ, on
                                         <div className="card-content">
                                             <span className="q-label">0{i+1}</span>
                                             <h3>{q.text}</h3>
+                                            {q.answered && q.answer && <p className="q-answer">{q.answer}</p>}
                                             {isActive && (
                                                 <div className="card-actions">
                                                     <div className="status-text">
-                                                        {status === "listening" ? "Listening..." : "Tap to Answer"}
+                                                        {q.answered ? "Answered" : status === "listening" ? "Listening..." : "Tap to Answer"}
                                                     </div>
                                                     <button className={`record-btn ${status === 'listening' ? 'rec' : ''}`}>
                                                         <Icons.Mic active={status === 'listening'} />
@@ -436,10 +1676,7 @@ function ChatView({ status, questions, onListen, onStop, activeQ, setActiveQ, on
                                                 <div className="card-text-input" onClick={e => e.stopPropagation()}>
                                                     <TextInput 
                                                         className="card-input"
-                                                        onSend={(text) => {
-                                                            onSend(text);
-                                                            // Optionally advance or close, for now we just send
-                                                        }} 
+                                                        onSend={(text) => onAnswer(q.id, text)} 
                                                     />
                                                 </div>
                                             )}
@@ -485,7 +1722,18 @@ function ChatView({ status, questions, onListen, onStop, activeQ, setActiveQ, on
                     cursor: pointer;
                     display: flex; align-items: center; justify-content: center;
                     margin: 0 auto;
+                    touch-action: none;
+                }
+                .input-mode {
+                    display: flex; justify-content: center; gap: 8px; margin-top: 24px;
                 }
+                .input-mode button {
+                    background: none; border: 1px solid #222; border-radius: 12px;
+                    padding: 6px 12px; color: #666; cursor: pointer;
+                    font-family: 'Manrope'; font-size: 11px; letter-spacing: 1px;
+                }
+                .input-mode button.on { border-color: #FF3300; color: white; }
+                .input-mode .end-session { color: #FF3300; }
                 .bento-wrapper {
                     position: absolute; bottom: 0; left: 0; right: 0; top: 0;
                     background: rgba(5,5,5,0.8);
@@ -496,6 +1744,7 @@ function ChatView({ status, questions, onListen, onStop, activeQ, setActiveQ, on
                 }
                 .bento-grid {
                     width: 100%; max-width: 600px; margin: 0 auto;
+                    max-height: 100%; overflow-y: auto;
                     display: grid; gap: 16px;
                     grid-template-columns: 1fr;
                 }
@@ -522,6 +1771,7 @@ function ChatView({ status, questions, onListen, onStop, activeQ, setActiveQ, on
                     pointer-events: none;
                     text-decoration: line-through;
                 }
+                .q-answer { font-family: 'Manrope'; font-size: 13px; color: #888; margin: 8px 0 0; }
                 .q-label {
                     font-family: 'Manrope'; font-size: 12px; color: #FF3300;
                     margin-bottom: 8px; display: block;
@@ -551,11 +1801,210 @@ function ChatView({ status, questions, onListen, onStop, activeQ, setActiveQ, on
     );
 }
 
+// --- Workshop ---
+// Whoever is selected gets the client's turns; the facilitator taps (or presses 1-9) when someone else talks
+function SpeakerBar({ participants, speakerId, onSpeaker }: { participants: Participant[], speakerId: string | null, onSpeaker: (id: string) => void }) {
+    return (
+        <div className="speaker-bar" role="radiogroup" aria-label="Speaker">
+            {participants.map((p, i) => (
+                <button 
+                    key={p.id} 
+                    role="radio" 
+                    aria-checked={p.id === speakerId} 
+                    className={p.id === speakerId ? 'on' : ''} 
+                    title={`${participantLabel(p)}${i < 9 ? ` · press ${i + 1}` : ""}`}
+                    onClick={() => onSpeaker(p.id)}
+                >
+                    {p.name}
+                </button>
+            ))}
+            <style>{`
+                .speaker-bar {
+                    position: absolute; top: 16px; left: 50%; transform: translateX(-50%); z-index: 45;
+                    display: flex; gap: 6px; padding: 4px; max-width: 90vw; overflow-x: auto;
+                    background: #111; border: 1px solid #222; border-radius: 16px;
+                }
+                .speaker-bar button {
+                    flex: none; background: none; border: 1px solid transparent; border-radius: 12px;
+                    padding: 6px 12px; color: #666; cursor: pointer;
+                    font-family: 'Manrope'; font-size: 12px; font-weight: 700;
+                }
+                .speaker-bar button:hover { color: white; }
+                .speaker-bar button.on { border-color: #FF3300; color: white; }
+            `}</style>
+        </div>
+    );
+}
+
+function WorkshopDialog({ participants, onSave, onClose }: { participants: Participant[], onSave: (next: Participant[]) => void, onClose: () => void }) {
+    const [draft, setDraft] = useState<Participant[]>(participants);
+    const [name, setName] = useState("");
+    const [role, setRole] = useState("");
+    const [formError, setFormError] = useState<string | null>(null);
+
+    const add = () => {
+        try {
+            setDraft(prev => [...prev, createParticipant(name, role)]);
+            setName("");
+            setRole("");
+            setFormError(null);
+        } catch (e: any) {
+            setFormError(e.message);
+        }
+    };
+
+    const change = (id: string, patch: Partial<Participant>) => setDraft(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+
+    const save = () => {
+        // A name typed but not added yet still counts
+        const pending = name.trim() ? [createParticipant(name, role)] : [];
+        const named = [...draft, ...pending].map(p => ({ ...p, name: p.name.trim(), role: p.role.trim() }));
+        if (named.some(p => !p.name)) return setFormError("Every participant needs a name.");
+        const duplicates = duplicateNames(named);
+        if (duplicates.length) return setFormError(`Names must be unique: ${duplicates.join(", ")}.`);
+        onSave(named);
+    };
+
+    return (
+        <div className="workshop-dialog" role="dialog" aria-label="Workshop participants">
+            <div className="workshop-card">
+                <div className="workshop-heading">WORKSHOP PARTICIPANTS</div>
+                <p className="workshop-note">
+                    With participants registered, every client turn is attributed to the selected speaker and the brief records who wanted what. Leave the list empty for a one-to-one interview.
+                </p>
+
+                {draft.map((p, i) => (
+                    <div key={p.id} className="workshop-row">
+                        <span className="workshop-key">{i + 1}</span>
+                        <input aria-label="Name" value={p.name} onChange={e => change(p.id, { name: e.target.value })} />
+                        <input aria-label="Role" placeholder="Role" value={p.role} onChange={e => change(p.id, { role: e.target.value })} />
+                        <button onClick={() => setDraft(prev => prev.filter(x => x.id !== p.id))}>REMOVE</button>
+                    </div>
+                ))}
+
+                <div className="workshop-row">
+                    <span className="workshop-key">+</span>
+                    <input 
+                        aria-label="New participant name" 
+                        placeholder="Name" 
+                        value={name} 
+                        onChange={e => setName(e.target.value)} 
+                        onKeyDown={e => e.key === "Enter" && add()} 
+                    />
+                    <input 
+                        aria-label="New participant role" 
+                        placeholder="Role, e.g. Head of Sales" 
+                        value={role} 
+                        onChange={e => setRole(e.target.value)} 
+                        onKeyDown={e => e.key === "Enter" && add()} 
+                    />
+                    <button onClick={add}>ADD</button>
+                </div>
+                {formError && <div className="workshop-error">{formError}</div>}
+
+                <div className="workshop-footer">
+                    <button onClick={onClose}>CANCEL</button>
+                    <button className="primary" onClick={save}>SAVE</button>
+                </div>
+            </div>
+            <style>{`
+                .workshop-dialog {
+                    position: absolute; inset: 0; z-index: 120;
+                    background: rgba(5,5,5,0.8); backdrop-filter: blur(10px);
+                    display: flex; align-items: center; justify-content: center;
+                }
+                .workshop-card {
+                    width: 480px; max-height: 90%; overflow-y: auto;
+                    background: #111; border: 1px solid #222; border-radius: 24px; padding: 28px;
+                    display: flex; flex-direction: column; gap: 12px;
+                    font-family: 'Manrope'; font-size: 13px; color: #ccc;
+                }
+                .workshop-heading { font-size: 10px; letter-spacing: 2px; color: #888; }
+                .workshop-note { margin: 0; font-size: 12px; color: #888; }
+                .workshop-row { display: flex; align-items: center; gap: 8px; }
+                .workshop-key { width: 16px; flex: none; font-size: 11px; color: #FF3300; text-align: center; }
+                .workshop-row input {
+                    flex: 1; min-width: 0; background: #0a0a0a; color: white; border: 1px solid #222; border-radius: 12px;
+                    padding: 8px 12px; font-family: 'Manrope'; font-size: 13px; outline: none;
+                }
+                .workshop-error { color: #FF3300; font-size: 12px; }
+                .workshop-footer { display: flex; justify-content: flex-end; gap: 8px; margin-top: 4px; }
+                .workshop-card button {
+                    background: none; border: 1px solid #222; border-radius: 12px; color: #888;
+                    padding: 6px 12px; font-family: 'Manrope'; font-size: 11px; letter-spacing: 1px;
+                    cursor: pointer;
+                }
+                .workshop-card button.primary { background: #FF3300; border-color: #FF3300; color: black; font-weight: 700; }
+            `}</style>
+        </div>
+    );
+}
+
+// --- Video Tile ---
+// Shows the client exactly what the model is being sent
+function VideoTile({ video, onStop }: { video: { source: VideoSource, stream: MediaStream }, onStop: () => void }) {
+    const ref = useRef<HTMLVideoElement>(null);
+    useEffect(() => {
+        if (ref.current) ref.current.srcObject = video.stream;
+    }, [video.stream]);
+
+    return (
+        <div className="video-tile" aria-label={`Sharing ${VIDEO_SOURCE_LABELS[video.source].toLowerCase()}`}>
+            <video ref={ref} autoPlay muted playsInline className={video.source} />
+            <div className="video-tile-bar">
+                <span><span className="rec-dot" /> {VIDEO_SOURCE_LABELS[video.source].toUpperCase()} IS SHARED</span>
+                <button onClick={onStop}>STOP</button>
+            </div>
+            <style>{`
+                .video-tile {
+                    position: absolute; right: 24px; bottom: 24px; z-index: 40;
+                    width: 240px; border: 1px solid #FF3300; border-radius: 16px;
+                    overflow: hidden; background: #111;
+                }
+                .video-tile video { display: block; width: 100%; max-height: 180px; object-fit: contain; background: black; }
+                /* Mirrored so it reads like a mirror; the model gets the frame unmirrored */
+                .video-tile video.camera { transform: scaleX(-1); }
+                .video-tile-bar {
+                    display: flex; justify-content: space-between; align-items: center; padding: 8px 10px;
+                    font-family: 'Manrope'; font-size: 10px; letter-spacing: 1px; color: white;
+                }
+                .rec-dot {
+                    display: inline-block; width: 6px; height: 6px; border-radius: 50%;
+                    background: #FF3300; margin-right: 4px; animation: blink 1.5s infinite;
+                }
+                .video-tile-bar button {
+                    background: #FF3300; color: black; border: none; border-radius: 10px;
+                    padding: 4px 10px; font-family: 'Manrope'; font-weight: 700; font-size: 10px;
+                    letter-spacing: 1px; cursor: pointer;
+                }
+            `}</style>
+        </div>
+    );
+}
+
 // --- Spec View ---
-function SpecView({ spec, onClose, onExport, isGen }: any) {
+function SpecView({ spec, history, questions, revisions, highlight, onRollback, onSaveEdit, onClose, onExport, isGen, recording, renderRecording, onDownloadRecording, clientName, onExportDocument, onGenerateBacklog, images }: any) {
+    const [showTranscript, setShowTranscript] = useState(true);
+    const [showExport, setShowExport] = useState(false);
+    const [showBacklog, setShowBacklog] = useState(false);
+    const [mode, setMode] = useState<"read"|"edit"|"history">("read");
+    const [draft, setDraft] = useState("");
+    const [draftBase, setDraftBase] = useState("");
+
+    const startEdit = () => {
+        setDraft(spec);
+        setDraftBase(spec);
+        setMode("edit");
+    };
+
+    const saveEdit = () => {
+        if (draft !== spec) onSaveEdit(draft);
+        setMode("read");
+    };
+
     return (
         <motion.div 
-            className="spec-panel"
+            className={`spec-panel ${showTranscript ? 'with-transcript' : ''}`}
             initial={{ x: "100%" }}
             animate={{ x: 0 }}
             exit={{ x: "100%" }}
@@ -564,30 +2013,127 @@ function SpecView({ spec, onClose, onExport, isGen }: any) {
             <div className="spec-inner">
                 <div className="spec-toolbar">
                     <button onClick={onClose} className="back-btn"><Icons.ArrowRight /></button>
-                    <button 
-                        onClick={onExport} 
-                        className="export-btn"
-                        disabled={isGen}
-                    >
-                        {isGen ? "GENERATING..." : "FINALIZE & EXPORT"}
-                    </button>
+                    <div className="spec-toolbar-actions">
+                        {mode === "edit" ? (
+                            <>
+                                <button onClick={() => setMode("read")} className="toggle-btn">CANCEL</button>
+                                <button onClick={saveEdit} className="toggle-btn on">SAVE</button>
+                            </>
+                        ) : (
+                            <>
+                                <button onClick={startEdit} className="toggle-btn">EDIT</button>
+                                <button 
+                                    onClick={() => setMode(mode === "history" ? "read" : "history")} 
+                                    className={`toggle-btn ${mode === "history" ? 'on' : ''}`}
+                                >
+                                    HISTORY
+                                </button>
+                            </>
+                        )}
+                        <button 
+                            onClick={() => setShowTranscript(!showTranscript)} 
+                            className={`toggle-btn ${showTranscript ? 'on' : ''}`}
+                        >
+                            TRANSCRIPT
+                        </button>
+                        <button onClick={() => setShowExport(true)} className="toggle-btn">DELIVERABLE</button>
+                        <button onClick={() => setShowBacklog(true)} className="toggle-btn">BACKLOG</button>
+                        <button 
+                            onClick={onExport} 
+                            className="export-btn"
+                            disabled={isGen}
+                        >
+                            {isGen ? "GENERATING..." : "FINALIZE & EXPORT"}
+                        </button>
+                    </div>
                 </div>
-                <div className="markdown-body">
-                    <ReactMarkdown>{spec}</ReactMarkdown>
+                <div className="spec-body">
+                    {mode === "edit" ? (
+                        <div className="spec-editor">
+                            {spec !== draftBase && (
+                                <div className="editor-notice">The brief changed while you were editing. Saving will replace it with your version.</div>
+                            )}
+                            <div className="editor-panes">
+                                <textarea 
+                                    className="editor-source"
+                                    value={draft}
+                                    onChange={e => setDraft(e.target.value)}
+                                    spellCheck={false}
+                                    autoFocus
+                                />
+                                <div className="markdown-body editor-preview">
+                                    <BriefMarkdown markdown={draft} images={images} />
+                                </div>
+                            </div>
+                        </div>
+                    ) : mode === "history" ? (
+                        <VersionsPanel 
+                            revisions={revisions} 
+                            onRollback={(id: string) => { onRollback(id); setMode("read"); }} 
+                        />
+                    ) : (
+                        <BriefPreview spec={spec} highlight={highlight} images={images} />
+                    )}
+                    {showExport && (
+                        <ExportDialog 
+                            clientName={clientName}
+                            busy={isGen}
+                            onExport={async (prefs: ExportPrefs, name: string) => {
+                                if (await onExportDocument(prefs, name)) setShowExport(false);
+                            }}
+                            onClose={() => setShowExport(false)}
+                        />
+                    )}
+                    {showBacklog && (
+                        <BacklogDialog busy={isGen} onGenerate={onGenerateBacklog} onClose={() => setShowBacklog(false)} />
+                    )}
+                    {showTranscript && (
+                        <TranscriptPanel 
+                            history={history} 
+                            questions={questions} 
+                            recording={recording}
+                            renderRecording={renderRecording}
+                            onDownloadRecording={onDownloadRecording}
+                        />
+                    )}
                 </div>
             </div>
             <style>{`
                 .spec-panel {
                     position: fixed; top: 0; right: 0; bottom: 0;
                     width: 100vw; max-width: 800px;
+                    transition: max-width 0.3s;
                     background: #0a0a0a;
                     border-left: 1px solid #222;
                     z-index: 100;
                     display: flex; flex-direction: column;
                 }
+                .spec-panel.with-transcript { max-width: 1160px; }
                 .spec-inner {
                     height: 100%; display: flex; flex-direction: column;
                 }
+                .spec-body { flex: 1; display: flex; min-height: 0; }
+                .spec-toolbar-actions { display: flex; gap: 12px; }
+                .toggle-btn {
+                    background: none; color: #888; border: 1px solid #333;
+                    padding: 0 20px; height: 44px; border-radius: 22px;
+                    font-family: 'Manrope'; font-weight: 700; font-size: 12px;
+                    letter-spacing: 1px; cursor: pointer;
+                }
+                .toggle-btn.on { color: white; border-color: #666; }
+                .spec-editor { flex: 1; display: flex; flex-direction: column; min-width: 0; }
+                .editor-notice {
+                    padding: 8px 24px; background: rgba(255,51,0,0.15); color: #FF3300;
+                    font-family: 'Manrope'; font-size: 12px;
+                }
+                .editor-panes { flex: 1; display: flex; min-height: 0; }
+                .editor-source {
+                    flex: 1; resize: none; border: none; border-right: 1px solid #222;
+                    background: #080808; color: #e5e5e5; padding: 40px 24px; outline: none;
+                    font-family: ui-monospace, monospace; font-size: 13px; line-height: 1.7;
+                }
+                .editor-preview { flex: 1; padding: 40px 24px; }
+                .editor-preview h1 { font-size: 2rem; }
                 .spec-toolbar {
                     padding: 24px; border-bottom: 1px solid #222;
                     display: flex; justify-content: space-between;
@@ -616,5 +2162,787 @@ function SpecView({ spec, onClose, onExport, isGen }: any) {
     );
 }
 
+// --- Brief Preview ---
+const SECTION_FLASH_MS = 2500;
+
+// Moodboard images are linked as moodboard:<id> and resolved to the stored image
+function BriefMarkdown({ markdown, images }: { markdown: string, images: MoodboardImage[] }) {
+    const byUrl = useMemo(() => imagesByUrl(images), [images]);
+    return (
+        <ReactMarkdown urlTransform={url => url.startsWith(MOODBOARD_URL) ? byUrl[url]?.dataUrl ?? "" : defaultUrlTransform(url)}>
+            {markdown}
+        </ReactMarkdown>
+    );
+}
+
+function BriefPreview({ spec, highlight, images }: { spec: string, highlight: { heading: string, at: number } | null, images: MoodboardImage[] }) {
+    const bodyRef = useRef<HTMLDivElement>(null);
+
+    // Flash the section the model just changed: its heading plus the blocks up to the next peer heading
+    useEffect(() => {
+        const body = bodyRef.current;
+        if (!body || !highlight || Date.now() - highlight.at > SECTION_FLASH_MS) return;
+
+        const children = Array.from(body.children) as HTMLElement[];
+        const levelOf = (el: Element) => /^H[1-6]$/.test(el.tagName) ? Number(el.tagName[1]) : 0;
+        const start = children.findIndex(el => levelOf(el) && normalizeHeading(el.textContent || "") === normalizeHeading(highlight.heading));
+        if (start < 0) return;
+
+        const level = levelOf(children[start]);
+        const flashed = [children[start]];
+        for (let i = start + 1; i < children.length; i++) {
+            const l = levelOf(children[i]);
+            if (l && l <= level) break;
+            flashed.push(children[i]);
+        }
+
+        flashed.forEach(el => el.classList.add("section-flash"));
+        flashed[0].scrollIntoView({ behavior: "smooth", block: "start" });
+        const timer = setTimeout(() => flashed.forEach(el => el.classList.remove("section-flash")), SECTION_FLASH_MS);
+        return () => {
+            clearTimeout(timer);
+            flashed.forEach(el => el.classList.remove("section-flash"));
+        };
+    }, [highlight, spec]);
+
+    return (
+        <div className="markdown-body" ref={bodyRef}>
+            <BriefMarkdown markdown={spec} images={images} />
+            <style>{`
+                .markdown-body img { max-width: 100%; max-height: 320px; border-radius: 12px; display: block; }
+                .markdown-body .section-flash {
+                    background: rgba(255,51,0,0.12);
+                    box-shadow: -16px 0 0 rgba(255,51,0,0.12), 16px 0 0 rgba(255,51,0,0.12);
+                    transition: background 0.6s, box-shadow 0.6s;
+                }
+            `}</style>
+        </div>
+    );
+}
+
+// --- Versions Panel ---
+function VersionsPanel({ revisions, onRollback }: { revisions: SpecRevision[], onRollback: (id: string) => void }) {
+    const latest = revisions.length - 1;
+    const [fromIdx, setFromIdx] = useState(Math.max(0, latest - 1));
+    const [toIdx, setToIdx] = useState(latest);
+
+    const from = revisions[Math.min(fromIdx, latest)];
+    const to = revisions[Math.min(toIdx, latest)];
+    const lines = diffLines(from.content, to.content);
+
+    const describe = (r: SpecRevision, i: number) =>
+        `v${i + 1} · ${SOURCE_LABELS[r.source]}${r.label ? ` (${r.label})` : ""} · ${formatTime(r.timestamp)}`;
+
+    return (
+        <div className="versions-panel">
+            <ol className="version-list">
+                {revisions.map((r, i) => (
+                    <li key={r.id} className={i === latest ? "current" : ""}>
+                        <span>{describe(r, i)}</span>
+                        {i !== latest && (
+                            <button className="rollback-btn" onClick={() => onRollback(r.id)}>ROLL BACK</button>
+                        )}
+                    </li>
+                )).reverse()}
+            </ol>
+            <div className="diff-controls">
+                <select value={fromIdx} onChange={e => setFromIdx(Number(e.target.value))}>
+                    {revisions.map((r, i) => <option key={r.id} value={i}>{describe(r, i)}</option>)}
+                </select>
+                <span>→</span>
+                <select value={toIdx} onChange={e => setToIdx(Number(e.target.value))}>
+                    {revisions.map((r, i) => <option key={r.id} value={i}>{describe(r, i)}</option>)}
+                </select>
+            </div>
+            <pre className="diff-view">
+                {lines.map((l, i) => (
+                    <div key={i} className={`diff-line ${l.type}`}>
+                        <span className="diff-mark">{l.type === "added" ? "+" : l.type === "removed" ? "-" : " "}</span>
+                        {l.text || " "}
+                    </div>
+                ))}
+            </pre>
+            <style>{`
+                .versions-panel {
+                    flex: 1; overflow-y: auto; padding: 24px 40px;
+                    font-family: 'Manrope'; color: #ccc;
+                }
+                .version-list { list-style: none; margin: 0 0 24px; padding: 0; }
+                .version-list li {
+                    display: flex; justify-content: space-between; align-items: center;
+                    padding: 8px 0; border-bottom: 1px solid #1a1a1a; font-size: 12px; color: #888;
+                }
+                .version-list li.current { color: white; }
+                .rollback-btn {
+                    background: none; border: 1px solid #333; color: white; border-radius: 14px;
+                    padding: 4px 12px; font-family: 'Manrope'; font-size: 10px; letter-spacing: 1px; cursor: pointer;
+                }
+                .rollback-btn:hover { border-color: #FF3300; color: #FF3300; }
+                .diff-controls { display: flex; gap: 12px; align-items: center; margin-bottom: 16px; color: #666; }
+                .diff-controls select {
+                    flex: 1; background: #111; color: white; border: 1px solid #222;
+                    border-radius: 10px; padding: 8px; font-family: 'Manrope'; font-size: 12px;
+                }
+                .diff-view {
+                    margin: 0; padding: 16px; background: #080808; border: 1px solid #1a1a1a; border-radius: 12px;
+                    font-size: 12px; line-height: 1.6; white-space: pre-wrap; word-break: break-word;
+                }
+                .diff-line.added { background: rgba(255,255,255,0.08); color: white; }
+                .diff-line.removed { color: #FF3300; text-decoration: line-through; opacity: 0.8; }
+                .diff-mark { display: inline-block; width: 16px; color: #666; }
+            `}</style>
+        </div>
+    );
+}
+
+// --- Transcript Panel ---
+// --- Export Dialog ---
+const readLogo = (file: File) => new Promise<ExportLogo>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error("Could not read the logo"));
+    reader.onload = () => {
+        const dataUrl = reader.result as string;
+        const img = new Image();
+        img.onload = () => resolve({ dataUrl, width: img.naturalWidth, height: img.naturalHeight });
+        img.onerror = () => reject(new Error("Logo must be a PNG or JPEG image"));
+        img.src = dataUrl;
+    };
+    reader.readAsDataURL(file);
+});
+
+function ExportDialog({ clientName, busy, onExport, onClose }: any) {
+    const [prefs, setPrefs] = useState<ExportPrefs>(loadExportPrefs);
+    const [client, setClient] = useState<string>(clientName);
+    const [logoError, setLogoError] = useState<string | null>(null);
+    const update = (patch: Partial<ExportPrefs>) => setPrefs(p => ({ ...p, ...patch }));
+
+    const togglePart = (part: ExportPart) => update({
+        parts: prefs.parts.includes(part) ? prefs.parts.filter(p => p !== part) : [...prefs.parts, part]
+    });
+
+    const pickLogo = async (file?: File) => {
+        if (!file) return;
+        try {
+            update({ logo: await readLogo(file) });
+            setLogoError(null);
+        } catch (e: any) {
+            setLogoError(e.message);
+        }
+    };
+
+    return (
+        <div className="export-dialog" role="dialog" aria-label="Export document">
+            <div className="export-card">
+                <div className="export-heading">EXPORT DOCUMENT</div>
+
+                <div className="export-group">
+                    <span>Format</span>
+                    <div className="export-options">
+                        {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(f => (
+                            <button key={f} className={prefs.format === f ? 'on' : ''} onClick={() => update({ format: f })}>
+                                {EXPORT_FORMAT_LABELS[f]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="export-group">
+                    <span>Include</span>
+                    {(Object.keys(EXPORT_PART_LABELS) as ExportPart[]).map(part => (
+                        <label key={part} className="check">
+                            <input type="checkbox" checked={prefs.parts.includes(part)} onChange={() => togglePart(part)} />
+                            {EXPORT_PART_LABELS[part]}
+                        </label>
+                    ))}
+                </div>
+
+                <div className="export-group">
+                    <span>Cover</span>
+                    <input placeholder="Client name" value={client} onChange={e => setClient(e.target.value)} />
+                    <input placeholder="Agency name" value={prefs.agencyName} onChange={e => update({ agencyName: e.target.value })} />
+                    <div className="export-logo">
+                        {prefs.logo && <img src={prefs.logo.dataUrl} alt="Agency logo" />}
+                        <label className="file-btn">
+                            {prefs.logo ? "REPLACE LOGO" : "ADD LOGO"}
+                            <input type="file" accept="image/png,image/jpeg" hidden onChange={e => pickLogo(e.target.files?.[0])} />
+                        </label>
+                        {prefs.logo && <button onClick={() => update({ logo: null })}>REMOVE</button>}
+                    </div>
+                    {logoError && <div className="export-error">{logoError}</div>}
+                </div>
+
+                <div className="export-group">
+                    <span>Theme</span>
+                    <div className="export-options">
+                        <button className={!prefs.dark ? 'on' : ''} onClick={() => update({ dark: false })}>Light</button>
+                        <button className={prefs.dark ? 'on' : ''} onClick={() => update({ dark: true })}>Dark</button>
+                        <input type="color" aria-label="Accent colour" value={prefs.accent} onChange={e => update({ accent: e.target.value })} />
+                    </div>
+                </div>
+
+                <div className="export-footer">
+                    <button onClick={onClose}>CANCEL</button>
+                    <button 
+                        className="primary" 
+                        disabled={busy || prefs.parts.length === 0}
+                        onClick={() => onExport(prefs, client)}
+                    >
+                        {busy ? "GENERATING..." : "EXPORT"}
+                    </button>
+                </div>
+            </div>
+            <style>{`
+                .export-dialog {
+                    position: absolute; inset: 0; z-index: 120;
+                    background: rgba(5,5,5,0.8); backdrop-filter: blur(10px);
+                    display: flex; align-items: center; justify-content: center;
+                }
+                .export-card {
+                    width: 380px; max-height: 90%; overflow-y: auto;
+                    background: #111; border: 1px solid #222; border-radius: 24px; padding: 28px;
+                    display: flex; flex-direction: column; gap: 20px;
+                    font-family: 'Manrope'; font-size: 13px; color: #ccc;
+                }
+                .export-heading { font-size: 10px; letter-spacing: 2px; color: #888; }
+                .export-group { display: flex; flex-direction: column; gap: 8px; }
+                .export-group > span { font-size: 10px; letter-spacing: 1px; text-transform: uppercase; color: #666; }
+                .export-group .check { display: flex; align-items: center; gap: 8px; cursor: pointer; }
+                .export-group input[type=checkbox] { accent-color: #FF3300; }
+                .export-group input:not([type]) {
+                    background: #0a0a0a; color: white; border: 1px solid #222; border-radius: 12px;
+                    padding: 8px 12px; font-family: 'Manrope'; font-size: 13px; outline: none;
+                }
+                .export-options { display: flex; gap: 6px; align-items: center; }
+                .export-options input[type=color] { width: 32px; height: 28px; border: none; background: none; cursor: pointer; }
+                .export-card button, .export-card .file-btn {
+                    background: none; border: 1px solid #222; border-radius: 12px; color: #888;
+                    padding: 6px 12px; font-family: 'Manrope'; font-size: 11px; letter-spacing: 1px;
+                    cursor: pointer;
+                }
+                .export-card button.on { border-color: #FF3300; color: white; }
+                .export-logo { display: flex; align-items: center; gap: 8px; }
+                .export-logo img { max-width: 80px; max-height: 32px; object-fit: contain; }
+                .export-error { color: #FF3300; font-size: 12px; }
+                .export-footer { display: flex; justify-content: flex-end; gap: 8px; }
+                .export-card button.primary { background: #FF3300; border-color: #FF3300; color: black; font-weight: 700; }
+                .export-card button:disabled { opacity: 0.5; cursor: default; }
+            `}</style>
+        </div>
+    );
+}
+
+// --- Import Dialog ---
+function ImportDialog({ initialFile, pristine, shared, onImport, onRemove, onClose }: any) {
+    const [doc, setDoc] = useState<ImportedDocument | null>(null);
+    const [pasted, setPasted] = useState("");
+    const [asBrief, setAsBrief] = useState<boolean>(pristine);
+    const [share, setShare] = useState(true);
+    const [reading, setReading] = useState(false);
+    const [readError, setReadError] = useState<string | null>(null);
+
+    const pickFile = async (file?: File | null) => {
+        if (!file) return;
+        setReading(true);
+        setReadError(null);
+        try {
+            setDoc(await readImportFile(file));
+            setPasted("");
+        } catch (e: any) {
+            setDoc(null);
+            setReadError(e?.message || "Could not read the file.");
+        } finally {
+            setReading(false);
+        }
+    };
+
+    useEffect(() => {
+        pickFile(initialFile);
+    }, [initialFile]);
+
+    const submit = () => {
+        try {
+            onImport(doc ?? createImport("Pasted text", "paste", pasted), { asBrief, share });
+        } catch (e: any) {
+            setReadError(e.message);
+        }
+    };
+
+    return (
+        <div className="import-dialog" role="dialog" aria-label="Import document">
+            <div className="import-card">
+                <div className="import-heading">IMPORT DOCUMENT</div>
+
+                <div 
+                    className="import-drop"
+                    onDragOver={e => e.preventDefault()}
+                    onDrop={e => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        pickFile(e.dataTransfer.files[0]);
+                    }}
+                >
+                    {reading ? "Reading..." : doc ? (
+                        <span className="import-file">
+                            {doc.name} · {doc.text.length.toLocaleString()} characters{doc.truncated ? " (cut to fit)" : ""}
+                        </span>
+                    ) : "Drop a markdown, text or PDF file"}
+                    <label className="file-btn">
+                        {doc ? "REPLACE" : "CHOOSE FILE"}
+                        <input 
+                            type="file" 
+                            accept={IMPORT_ACCEPT} 
+                            hidden 
+                            onChange={e => {
+                                pickFile(e.target.files?.[0]);
+                                e.target.value = "";
+                            }} 
+                        />
+                    </label>
+                </div>
+
+                {!doc && (
+                    <textarea 
+                        rows={6} 
+                        placeholder="Or paste notes, an RFP or an earlier brief"
+                        value={pasted} 
+                        onChange={e => setPasted(e.target.value)} 
+                    />
+                )}
+                {readError && <div className="import-error">{readError}</div>}
+
+                <div className="import-options">
+                    <label className="check">
+                        <input type="checkbox" checked={asBrief} onChange={e => setAsBrief(e.target.checked)} />
+                        Use as the starting brief
+                    </label>
+                    <label className="check">
+                        <input type="checkbox" checked={share} onChange={e => setShare(e.target.checked)} />
+                        Share with the interviewer as context
+                    </label>
+                    {asBrief && !pristine && <div className="import-note">This replaces the current brief. Earlier versions stay in the history.</div>}
+                </div>
+
+                {shared.length > 0 && (
+                    <div className="import-shared">
+                        <span>Shared so far</span>
+                        {shared.map((d: ImportedDocument) => (
+                            <div key={d.id} className="import-shared-row">
+                                <span>{d.name}</span>
+                                <button onClick={() => onRemove(d.id)}>REMOVE</button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="import-footer">
+                    <button onClick={onClose}>CANCEL</button>
+                    <button 
+                        className="primary" 
+                        disabled={reading || (!doc && !pasted.trim()) || (!asBrief && !share)}
+                        onClick={submit}
+                    >
+                        IMPORT
+                    </button>
+                </div>
+            </div>
+            <style>{`
+                .import-dialog {
+                    position: absolute; inset: 0; z-index: 120;
+                    background: rgba(5,5,5,0.8); backdrop-filter: blur(10px);
+                    display: flex; align-items: center; justify-content: center;
+                }
+                .import-card {
+                    width: 420px; max-height: 90%; overflow-y: auto;
+                    background: #111; border: 1px solid #222; border-radius: 24px; padding: 28px;
+                    display: flex; flex-direction: column; gap: 16px;
+                    font-family: 'Manrope'; font-size: 13px; color: #ccc;
+                }
+                .import-heading { font-size: 10px; letter-spacing: 2px; color: #888; }
+                .import-drop {
+                    border: 1px dashed #333; border-radius: 16px; padding: 20px;
+                    display: flex; flex-direction: column; align-items: center; gap: 12px;
+                    color: #666; text-align: center;
+                }
+                .import-file { color: white; word-break: break-all; }
+                .import-card textarea {
+                    background: #0a0a0a; color: white; border: 1px solid #222; border-radius: 12px;
+                    padding: 10px 12px; font-family: 'Manrope'; font-size: 13px; outline: none; resize: vertical;
+                }
+                .import-options { display: flex; flex-direction: column; gap: 8px; }
+                .import-options .check { display: flex; align-items: center; gap: 8px; cursor: pointer; }
+                .import-options input[type=checkbox] { accent-color: #FF3300; }
+                .import-note { font-size: 11px; color: #888; }
+                .import-error { color: #FF3300; font-size: 12px; }
+                .import-shared { display: flex; flex-direction: column; gap: 6px; }
+                .import-shared > span { font-size: 10px; letter-spacing: 1px; text-transform: uppercase; color: #666; }
+                .import-shared-row { display: flex; justify-content: space-between; align-items: center; gap: 8px; }
+                .import-footer { display: flex; justify-content: flex-end; gap: 8px; }
+                .import-card button, .import-card .file-btn {
+                    background: none; border: 1px solid #222; border-radius: 12px; color: #888;
+                    padding: 6px 12px; font-family: 'Manrope'; font-size: 11px; letter-spacing: 1px;
+                    cursor: pointer;
+                }
+                .import-card button.primary { background: #FF3300; border-color: #FF3300; color: black; font-weight: 700; }
+                .import-card button:disabled { opacity: 0.5; cursor: default; }
+            `}</style>
+        </div>
+    );
+}
+
+// --- Backlog Dialog ---
+function BacklogDialog({ busy, onGenerate, onClose }: any) {
+    const [includeTechSpec, setIncludeTechSpec] = useState(true);
+    const [backlog, setBacklog] = useState<Backlog | null>(null);
+    const [format, setFormat] = useState<BacklogFormat>("github");
+    const [showOutput, setShowOutput] = useState(false);
+    const output = useMemo(() => backlog ? formatBacklog(backlog, format) : "", [backlog, format]);
+
+    const generate = async () => {
+        const result = await onGenerate(includeTechSpec);
+        if (result) setBacklog(result);
+    };
+
+    const editEpics = (fn: (epics: Epic[]) => Epic[]) => setBacklog(b => b && { ...b, epics: fn(b.epics) });
+    const updateEpic = (ei: number, patch: Partial<Epic>) => editEpics(epics => epics.map((e, i) => i === ei ? { ...e, ...patch } : e));
+    const updateStory = (ei: number, si: number, patch: Partial<Story>) =>
+        updateEpic(ei, { stories: backlog!.epics[ei].stories.map((s, i) => i === si ? { ...s, ...patch } : s) });
+
+    const { file, type } = BACKLOG_FORMATS[format];
+
+    return (
+        <div className="backlog-dialog" role="dialog" aria-label="Export backlog">
+            <div className="backlog-card">
+                <div className="backlog-header">
+                    <span>BACKLOG</span>
+                    <button className="close-card" aria-label="Close" onClick={onClose}><Icons.Close /></button>
+                </div>
+
+                {!backlog ? (
+                    <div className="backlog-intro">
+                        <p>Turn the brief into epics, user stories with acceptance criteria, and open questions. You can edit everything before downloading.</p>
+                        <label className="check">
+                            <input type="checkbox" checked={includeTechSpec} onChange={e => setIncludeTechSpec(e.target.checked)} />
+                            Use the technical spec
+                        </label>
+                        <button className="primary" disabled={busy} onClick={generate}>{busy ? "GENERATING..." : "GENERATE"}</button>
+                    </div>
+                ) : (
+                    <>
+                        <div className="backlog-body">
+                            {backlog.epics.map((epic, ei) => (
+                                <div key={ei} className="backlog-epic">
+                                    <div className="backlog-row">
+                                        <span className="backlog-tag">EPIC</span>
+                                        <input value={epic.title} onChange={e => updateEpic(ei, { title: e.target.value })} />
+                                        <button onClick={() => editEpics(epics => epics.filter((_, i) => i !== ei))}>REMOVE</button>
+                                    </div>
+                                    <textarea rows={2} value={epic.description} onChange={e => updateEpic(ei, { description: e.target.value })} />
+                                    {epic.stories.map((story, si) => (
+                                        <div key={si} className="backlog-story">
+                                            <div className="backlog-row">
+                                                <span className="backlog-tag">STORY</span>
+                                                <input value={story.title} onChange={e => updateStory(ei, si, { title: e.target.value })} />
+                                                <button onClick={() => updateEpic(ei, { stories: epic.stories.filter((_, i) => i !== si) })}>REMOVE</button>
+                                            </div>
+                                            <textarea rows={2} value={story.description} onChange={e => updateStory(ei, si, { description: e.target.value })} />
+                                            <textarea 
+                                                rows={3} 
+                                                placeholder="Acceptance criteria, one per line"
+                                                value={story.acceptanceCriteria.join("\n")} 
+                                                onChange={e => updateStory(ei, si, { acceptanceCriteria: e.target.value.split("\n") })} 
+                                            />
+                                        </div>
+                                    ))}
+                                    <button onClick={() => updateEpic(ei, { stories: [...epic.stories, { title: "New story", description: "", acceptanceCriteria: [] }] })}>
+                                        ADD STORY
+                                    </button>
+                                </div>
+                            ))}
+                            <button onClick={() => editEpics(epics => [...epics, { title: "New epic", description: "", stories: [] }])}>ADD EPIC</button>
+                            <div className="backlog-epic">
+                                <span className="backlog-tag">OPEN QUESTIONS</span>
+                                <textarea 
+                                    rows={3} 
+                                    placeholder="One per line"
+                                    value={backlog.openQuestions.join("\n")} 
+                                    onChange={e => setBacklog({ ...backlog, openQuestions: e.target.value.split("\n") })} 
+                                />
+                            </div>
+                            {showOutput && <pre className="backlog-output">{output}</pre>}
+                        </div>
+
+                        <div className="backlog-footer">
+                            {(Object.keys(BACKLOG_FORMATS) as BacklogFormat[]).map(f => (
+                                <button key={f} className={format === f ? 'on' : ''} onClick={() => setFormat(f)}>
+                                    {BACKLOG_FORMATS[f].label}
+                                </button>
+                            ))}
+                            <span className="spacer" />
+                            <button className={showOutput ? 'on' : ''} onClick={() => setShowOutput(!showOutput)}>PREVIEW</button>
+                            <button disabled={busy} onClick={generate}>{busy ? "GENERATING..." : "REGENERATE"}</button>
+                            <button className="primary" onClick={() => download(file, output, type)}>DOWNLOAD</button>
+                        </div>
+                    </>
+                )}
+            </div>
+            <style>{`
+                .backlog-dialog {
+                    position: absolute; inset: 0; z-index: 120;
+                    background: rgba(5,5,5,0.8); backdrop-filter: blur(10px);
+                    display: flex; align-items: center; justify-content: center;
+                }
+                .backlog-card {
+                    width: min(720px, 92%); max-height: 90%;
+                    background: #111; border: 1px solid #222; border-radius: 24px; padding: 24px;
+                    display: flex; flex-direction: column; gap: 16px;
+                    font-family: 'Manrope'; font-size: 13px; color: #ccc;
+                }
+                .backlog-header { display: flex; justify-content: space-between; align-items: center; font-size: 10px; letter-spacing: 2px; color: #888; }
+                .backlog-header .close-card { position: static; }
+                .backlog-intro { display: flex; flex-direction: column; gap: 16px; align-items: flex-start; }
+                .backlog-intro p { margin: 0; line-height: 1.6; }
+                .backlog-intro .check { display: flex; gap: 8px; align-items: center; cursor: pointer; }
+                .backlog-intro input[type=checkbox] { accent-color: #FF3300; }
+                .backlog-body { overflow-y: auto; display: flex; flex-direction: column; gap: 12px; }
+                .backlog-epic { border: 1px solid #222; border-radius: 16px; padding: 14px; display: flex; flex-direction: column; gap: 8px; align-items: stretch; }
+                .backlog-story { margin-left: 16px; padding-left: 12px; border-left: 2px solid #222; display: flex; flex-direction: column; gap: 6px; }
+                .backlog-row { display: flex; gap: 8px; align-items: center; }
+                .backlog-row input { flex: 1; }
+                .backlog-tag { font-size: 9px; letter-spacing: 1px; color: #FF3300; }
+                .backlog-card input, .backlog-card textarea {
+                    background: #0a0a0a; color: white; border: 1px solid #222; border-radius: 10px;
+                    padding: 6px 10px; font-family: 'Manrope'; font-size: 13px; outline: none; resize: vertical;
+                }
+                .backlog-card button {
+                    background: none; border: 1px solid #222; border-radius: 12px; color: #888;
+                    padding: 6px 12px; font-family: 'Manrope'; font-size: 10px; letter-spacing: 1px;
+                    cursor: pointer; align-self: flex-start;
+                }
+                .backlog-card button.on { border-color: #FF3300; color: white; }
+                .backlog-card button.primary { background: #FF3300; border-color: #FF3300; color: black; font-weight: 700; }
+                .backlog-card button:disabled { opacity: 0.5; cursor: default; }
+                .backlog-output {
+                    background: #0a0a0a; border: 1px solid #222; border-radius: 12px; padding: 12px;
+                    font-size: 11px; white-space: pre-wrap; max-height: 240px; overflow-y: auto; margin: 0;
+                }
+                .backlog-footer { display: flex; gap: 6px; align-items: center; flex-wrap: wrap; }
+                .backlog-footer .spacer { flex: 1; }
+            `}</style>
+        </div>
+    );
+}
+
+// Transcription lands after the words were spoken, so seeking starts a little earlier
+const SEEK_LEAD = 1.5;
+
+interface TranscriptPanelProps {
+    history: Turn[];
+    questions: Question[];
+    recording: SessionRecorder | null;
+    renderRecording: (layout: RecordingLayout) => ArrayBuffer | null;
+    onDownloadRecording: (layout: RecordingLayout) => void;
+}
+
+function TranscriptPanel({ history, questions, recording, renderRecording, onDownloadRecording }: TranscriptPanelProps) {
+    const endRef = useRef<HTMLDivElement>(null);
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const pendingSeekRef = useRef<number | null>(null);
+    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ block: "end" });
+    }, [history]);
+
+    // A different session has a different recording
+    useEffect(() => setAudioUrl(null), [recording]);
+    useEffect(() => () => { if (audioUrl) URL.revokeObjectURL(audioUrl); }, [audioUrl]);
+
+    // Renders what has been recorded so far; call again to pick up newer audio
+    const loadAudio = () => {
+        const wav = renderRecording("mixed");
+        if (!wav) return false;
+        pendingSeekRef.current ??= audioRef.current?.currentTime ?? null;
+        setAudioUrl(URL.createObjectURL(new Blob([wav], { type: "audio/wav" })));
+        return true;
+    };
+
+    const seekTo = (turn: Turn) => {
+        if (!recording) return;
+        const at = Math.max(0, recording.offsetOf(turn.timestamp) - SEEK_LEAD);
+        const audio = audioRef.current;
+        if (audio && audioUrl && at < audio.duration) {
+            audio.currentTime = at;
+            audio.play();
+        } else {
+            pendingSeekRef.current = at;
+            if (!loadAudio()) pendingSeekRef.current = null;
+        }
+    };
+
+    const applyPendingSeek = () => {
+        const audio = audioRef.current;
+        const at = pendingSeekRef.current;
+        pendingSeekRef.current = null;
+        if (!audio || at === null) return;
+        audio.currentTime = at;
+        audio.play();
+    };
+
+    return (
+        <aside className="transcript-panel">
+            <div className="transcript-title">TRANSCRIPT</div>
+            {recording && (
+                <div className="recording-bar">
+                    <div className="recording-actions">
+                        <button onClick={() => { pendingSeekRef.current = audioUrl ? null : 0; loadAudio(); }}>{audioUrl ? "REFRESH" : "PLAY"}</button>
+                        <button onClick={() => onDownloadRecording("mixed")}>WAV</button>
+                        <button onClick={() => onDownloadRecording("tracks")}>2-TRACK WAV</button>
+                    </div>
+                    {audioUrl && <audio ref={audioRef} src={audioUrl} controls onLoadedMetadata={applyPendingSeek} />}
+                </div>
+            )}
+            {history.length === 0 && <div className="transcript-empty">Nothing said yet.</div>}
+            {history.map(turn => {
+                const q = turn.questionId ? questions.find(q => q.id === turn.questionId) : null;
+                return (
+                    <div 
+                        key={turn.id} 
+                        className={`transcript-line ${turn.role} ${recording ? 'seekable' : ''}`}
+                        title={recording ? "Play from here" : undefined}
+                        onClick={() => seekTo(turn)}
+                    >
+                        <div className="transcript-meta">
+                            <span>{speakerLabel(turn)}</span>
+                            <span>{formatTime(turn.timestamp)}</span>
+                        </div>
+                        <p>{turn.text}</p>
+                        {q && <div className="transcript-q">Re: {q.text}</div>}
+                    </div>
+                );
+            })}
+            <div ref={endRef} />
+            <style>{`
+                .transcript-panel {
+                    width: 340px; flex-shrink: 0; overflow-y: auto;
+                    border-left: 1px solid #222; padding: 24px;
+                    font-family: 'Manrope';
+                }
+                .transcript-title { font-size: 10px; letter-spacing: 2px; color: #888; margin-bottom: 16px; }
+                .transcript-empty { color: #555; font-size: 13px; }
+                .transcript-line { margin-bottom: 16px; }
+                .transcript-meta {
+                    display: flex; justify-content: space-between;
+                    font-size: 10px; letter-spacing: 1px; text-transform: uppercase; color: #666;
+                }
+                .transcript-line.user .transcript-meta span:first-child { color: #FF3300; }
+                .transcript-line p { margin: 4px 0 0; color: #ccc; font-size: 13px; line-height: 1.6; }
+                .transcript-q { margin-top: 4px; font-size: 11px; color: #666; font-style: italic; }
+                .transcript-line.seekable { cursor: pointer; border-radius: 8px; }
+                .transcript-line.seekable:hover p { color: white; }
+                .recording-bar {
+                    margin-bottom: 20px; padding-bottom: 16px; border-bottom: 1px solid #222;
+                    display: flex; flex-direction: column; gap: 10px;
+                }
+                .recording-actions { display: flex; gap: 6px; }
+                .recording-actions button {
+                    background: none; border: 1px solid #222; border-radius: 12px; color: #888;
+                    padding: 4px 10px; font-family: 'Manrope'; font-size: 10px; letter-spacing: 1px;
+                    cursor: pointer;
+                }
+                .recording-actions button:hover { color: white; border-color: #444; }
+                .recording-bar audio { width: 100%; height: 32px; }
+            `}</style>
+        </aside>
+    );
+}
+
+// --- Sessions View ---
+function SessionsView({ sessions, currentId, clientName, onClientName, onOpen, onDelete, onNew, onClose }: any) {
+    const formatDate = (ts: number) => new Date(ts).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+    return (
+        <div className="sessions-panel">
+            <div className="sessions-toolbar">
+                <button onClick={onClose} className="back-btn"><Icons.ArrowRight /></button>
+                <button onClick={onNew} className="export-btn">NEW SESSION</button>
+            </div>
+            <label className="client-field">
+                <span>CLIENT</span>
+                <input 
+                    type="text"
+                    value={clientName}
+                    onChange={e => onClientName(e.target.value)}
+                    placeholder="Client name"
+                />
+            </label>
+            <div className="session-list">
+                {sessions.length === 0 && <div className="session-empty">No saved interviews yet.</div>}
+                {sessions.map((s: StoredSession) => (
+                    <div key={s.id} className={`session-row ${s.id === currentId ? 'current' : ''}`}>
+                        <button className="session-open" onClick={() => onOpen(s.id)}>
+                            <span className="session-title">{s.title}</span>
+                            <span className="session-meta">
+                                {s.clientName || "No client"} · Created {formatDate(s.createdAt)} · Updated {formatDate(s.updatedAt)}
+                            </span>
+                        </button>
+                        <button 
+                            className="session-delete" 
+                            aria-label={`Delete ${s.title}`}
+                            onClick={() => { if (confirm(`Delete "${s.title}"?`)) onDelete(s.id); }}
+                        >
+                            <Icons.Close />
+                        </button>
+                    </div>
+                ))}
+            </div>
+            <style>{`
+                .sessions-panel {
+                    position: fixed; top: 0; left: 0; bottom: 0;
+                    width: 100vw; max-width: 480px;
+                    background: #0a0a0a;
+                    border-right: 1px solid #222;
+                    z-index: 100;
+                    display: flex; flex-direction: column;
+                    animation: slide-in 0.3s ease-out;
+                }
+                @keyframes slide-in { from { translate: -100% 0; } }
+                .sessions-toolbar {
+                    padding: 24px; border-bottom: 1px solid #222;
+                    display: flex; justify-content: space-between;
+                }
+                .client-field {
+                    display: flex; flex-direction: column; gap: 8px;
+                    padding: 24px; border-bottom: 1px solid #222;
+                    font-family: 'Manrope'; font-size: 10px; letter-spacing: 2px; color: #888;
+                }
+                .client-field input {
+                    background: #111; color: white; border: 1px solid #222; border-radius: 12px;
+                    padding: 12px 16px; font-family: 'Manrope'; font-size: 14px; outline: none;
+                }
+                .client-field input:focus { border-color: #444; }
+                .session-list { flex: 1; overflow-y: auto; padding: 16px 24px; }
+                .session-empty { color: #555; font-family: 'Manrope'; font-size: 14px; padding: 16px 0; }
+                .session-row {
+                    display: flex; align-items: center; gap: 8px;
+                    border: 1px solid #222; border-radius: 16px; margin-bottom: 12px;
+                    background: #111;
+                }
+                .session-row.current { border-color: #FF3300; }
+                .session-open {
+                    flex: 1; text-align: left; background: none; border: none; color: white;
+                    padding: 16px 20px; cursor: pointer; display: flex; flex-direction: column; gap: 4px;
+                }
+                .session-title { font-family: 'Syne'; font-weight: 700; font-size: 1.1rem; }
+                .session-meta { font-family: 'Manrope'; font-size: 11px; color: #888; }
+                .session-delete {
+                    background: none; border: none; color: #555; cursor: pointer;
+                    padding: 16px; transform: scale(0.7);
+                }
+                .session-delete:hover { color: #FF3300; }
+            `}</style>
+        </div>
+    );
+}
+
 const root = createRoot(document.getElementById("root")!);
 root.render(<App />);
@@ -1,164 +1,315 @@
-import { AudioStreamer } from "./audio-streamer";
+import { AudioStreamer, INPUT_SAMPLE_RATE } from "./audio-streamer";
+import { VideoSource, VideoStreamer } from "./video-streamer";
+import {
+    ClientMessage, Emitter, FunctionDeclaration, LiveEvents, ProtocolError, SetupMessage,
+    audioStreamEnd, mediaChunk, parseServerMessage, serverEvents, textTurn, toolResponse
+} from "./live-protocol";
 
 const HOST = "generativelanguage.googleapis.com";
 const URI = `wss://${HOST}/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContent`;
 
-export class LiveClient {
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 15000;
+
+/**
+ * Asks the backend proxy (server.ts) for a short-lived session token.
+ */
+export async function fetchProxyToken(proxyUrl: string) {
+    const res = await fetch(`${proxyUrl}/api/session`, { method: "POST" });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok || !body.token) {
+        throw new Error(body.error || `Proxy refused the session (${res.status})`);
+    }
+    return body.token as string;
+}
+
+export const proxyLiveEndpoint = (proxyUrl: string) => `${proxyUrl.replace(/^http/, "ws")}/live`;
+
+export interface SessionConfig {
+    /** Prebuilt voice name, e.g. "Aoede". */
+    voice?: string;
+    /** Function declarations the model may call (see ToolRegistry). */
+    tools?: FunctionDeclaration[];
+}
+
+/**
+ * One live interview over the Gemini Live WebSocket, with reconnects.
+ * Listen with `on(event, fn)`; see LiveEvents for what is emitted.
+ */
+export class LiveClient extends Emitter<LiveEvents> {
     ws: WebSocket | null = null;
     audio: AudioStreamer;
-    private msgQueue: string[] = [];
+    video: VideoStreamer;
+    maxReconnectAttempts = 5;
+    /** Returns the current brief and recent transcript, used to re-prime the model after a reconnect. */
+    resumeContext: (() => string) | null = null;
+    /** Context sent as each spoken client turn ends, e.g. who was speaking; null for none. */
+    turnContext: (() => string | null) | null = null;
+    /** When set, each (re)connect authenticates with a fresh proxy token instead of the API key. */
+    tokenProvider: (() => Promise<string>) | null = null;
+    private msgQueue: ClientMessage[] = [];
+    /** setupComplete arrived; until then everything but the setup is queued. */
+    private ready = false;
+    /** The server announced it will close; the close that follows is not a failure. */
+    private goingAway = false;
+    private systemInstruction = "";
+    private config: SessionConfig = {};
+    private closedByUser = false;
+    private reconnectAttempts = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
     
-    constructor(public apiKey: string, public onUpdate: (msg: any) => void) {
+    constructor(public apiKey: string, public endpoint = URI) {
+        super();
         this.audio = new AudioStreamer();
+        this.audio.onPlaybackChange = (playing) => this.emit("playback", playing ? "playing" : "stopped");
+        this.audio.onSpeechEnd = () => this.sendAudioStreamEnd();
+        this.video = new VideoStreamer();
+        this.video.onEnded = () => this.emit("video", null);
     }
 
-    async connect(systemInstruction: string) {
-        const url = `${URI}?key=${this.apiKey}`;
+    async connect(systemInstruction: string, config: SessionConfig = {}) {
+        this.systemInstruction = systemInstruction;
+        this.config = config;
+        this.closedByUser = false;
+        this.reconnectAttempts = 0;
+        this.open(false);
+    }
+
+    private async open(resuming: boolean) {
+        let url: string;
+        try {
+            // The key only ever goes to Google; any other endpoint (a mock server) gets none
+            url = this.tokenProvider
+                ? `${this.endpoint}?token=${encodeURIComponent(await this.tokenProvider())}`
+                : this.endpoint === URI ? `${URI}?key=${this.apiKey}` : this.endpoint;
+        } catch (e: any) {
+            console.error("Could not get a session token", e);
+            if (this.closedByUser) return;
+            if (this.reconnectAttempts < this.maxReconnectAttempts) {
+                this.scheduleReconnect();
+            } else {
+                this.audio.stopRecording();
+                this.stopVideo();
+                this.emit("connectionState", { state: "disconnected", error: "Proxy unavailable: " + e.message });
+            }
+            return;
+        }
+        if (this.closedByUser) return;
+
         this.ws = new WebSocket(url);
+        this.ready = false;
+        this.goingAway = false;
 
         this.ws.onopen = () => {
-            console.log("Connected to Gemini Live");
-            this.sendSetup(systemInstruction);
-            
-            // Flush queue
-            while (this.msgQueue.length > 0) {
-                const msg = this.msgQueue.shift();
-                if (msg) this.ws?.send(msg);
-            }
+            console.log(resuming ? "Reconnected to Gemini Live" : "Connected to Gemini Live");
+            this.sendSetup(resuming ? this.withResumeContext(this.systemInstruction) : this.systemInstruction);
 
-            // Start mic immediately after connect
-            this.audio.startRecording((b64) => this.sendAudio(b64));
+            // Start mic immediately after connect (it keeps running across reconnects)
+            if (!this.audio.worklet) {
+                this.audio.startRecording((b64) => this.sendAudio(b64))
+                    .catch((e) => this.emit("audioError", e?.message || "Microphone unavailable"));
+            }
         };
 
         this.ws.onmessage = async (event) => {
-            let data;
-            if (event.data instanceof Blob) {
-                data = JSON.parse(await event.data.text());
-            } else {
-                data = JSON.parse(event.data);
+            let msg;
+            try {
+                msg = parseServerMessage(event.data instanceof Blob ? await event.data.text() : event.data);
+            } catch (e) {
+                // Rethrowing from an async handler would only surface as an unhandled rejection
+                if (e instanceof ProtocolError) console.warn("Ignoring server message:", e.message);
+                else console.error("Could not read server message", e);
+                return;
             }
 
-            // Handle server audio
-            if (data.serverContent?.modelTurn?.parts?.[0]?.inlineData) {
-                const audioB64 = data.serverContent.modelTurn.parts[0].inlineData.data;
-                this.audio.playChunk(audioB64);
+            if (msg.setupComplete) {
+                this.ready = true;
+                // Only an accepted setup counts as a working connection; an open socket that is closed again keeps backing off
+                this.reconnectAttempts = 0;
+                // Nothing but the setup may be sent before the server confirms it
+                while (this.msgQueue.length > 0) {
+                    const queued = this.msgQueue.shift();
+                    if (queued) this.ws?.send(JSON.stringify(queued));
+                }
+                this.emit("connectionState", { state: "connected" });
+            }
+
+            // The user talked over the model: drop its queued audio immediately
+            if (msg.serverContent?.interrupted) {
+                this.audio.flushPlayback();
+            }
+            for (const part of msg.serverContent?.modelTurn?.parts ?? []) {
+                if (part.inlineData?.mimeType.startsWith("audio/pcm")) this.audio.playChunk(part.inlineData.data);
             }
-            
-            // Pass full message to UI for text/tool handling
-            this.onUpdate(data);
+            if (msg.goAway) {
+                console.log(`Server going away in ${msg.goAway.timeLeft ?? "a moment"}`);
+                this.goingAway = true;
+            }
+
+            this.emit("message", msg);
+            for (const e of serverEvents(msg)) this.emit(e.type, e.data as never);
         };
 
         this.ws.onerror = (e) => console.error("WebSocket error", e);
         this.ws.onclose = (event) => {
             console.log(`WebSocket closed: Code=${event.code}, Reason=${event.reason}`);
+            this.ready = false;
+            if (this.closedByUser) return;
+
+            // Queued tool responses answer calls of the closed session; everything else is sent once the next setup completes
+            this.msgQueue = this.msgQueue.filter(m => !("toolResponse" in m));
+
+            // An announced close is routine (e.g. the session hit its time limit), so it does not use up retries
+            if (this.goingAway) this.reconnectAttempts = 0;
+
             let errorMsg = "Connection closed";
+            let retryable = true;
             if (event.code === 1011) {
                 if (event.reason.includes("quota")) {
                     errorMsg = "Quota exceeded. Please check billing.";
+                    retryable = false;
                 } else {
                     errorMsg = "Server error: " + event.reason;
                 }
             }
-            this.onUpdate({ connectionState: "disconnected", error: errorMsg });
+
+            if (retryable && this.reconnectAttempts < this.maxReconnectAttempts) {
+                this.scheduleReconnect();
+                return;
+            }
+
+            this.audio.stopRecording();
+            this.audio.flushPlayback();
+            this.stopVideo();
+            this.ws = null;
+            this.emit("connectionState", { state: "disconnected", error: errorMsg });
         };
     }
 
-    private safeSend(data: any) {
-        const msg = JSON.stringify(data);
-        if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-            this.ws.send(msg);
+    private scheduleReconnect() {
+        const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY);
+        this.reconnectAttempts++;
+        this.emit("connectionState", { state: "reconnecting", attempt: this.reconnectAttempts, delay });
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.open(true);
+        }, delay);
+    }
+
+    private withResumeContext(systemInstruction: string) {
+        const context = this.resumeContext?.().trim();
+        if (!context) return systemInstruction;
+        return `${systemInstruction}
+The connection dropped and this session has just been resumed. Continue the interview from where it left off; do not greet the user again or repeat questions that were already answered.
+${context}
+`;
+    }
+
+    private safeSend(data: ClientMessage) {
+        if (this.ready && this.ws?.readyState === WebSocket.OPEN) {
+            this.ws.send(JSON.stringify(data));
         } else {
-            this.msgQueue.push(msg);
+            this.msgQueue.push(data);
         }
     }
 
     sendSetup(systemInstruction: string) {
-        // Setup must be sent immediately on open, so we bypass the queue check inside connect
-        // But if we call safeSend it will just work if called from onopen.
-        // However, sendSetup is called explicitly in onopen.
-        // Let's keep using this.ws.send in sendSetup if called from onopen, 
-        // OR just use safeSend but ensure it's called when open.
-        
-        // Wait, sendSetup is called inside onopen. So it's safe to send directly.
-        // But to be consistent let's just build the object and use safeSend? 
-        // Actually, sendSetup sends the initial configuration.
-        
-        const msg = {
+        const tools = this.config.tools ?? [];
+        const msg: SetupMessage = {
             setup: {
                 model: "models/gemini-live-2.5-flash-preview",
                 generationConfig: {
                     responseModalities: ["AUDIO"],
                     speechConfig: {
-                        voiceConfig: { prebuiltVoiceConfig: { voiceName: "Aoede" } }
+                        voiceConfig: { prebuiltVoiceConfig: { voiceName: this.config.voice || "Aoede" } }
                     }
                 },
                 systemInstruction: {
                     parts: [{ text: systemInstruction }]
                 },
-                tools: [{ functionDeclarations: [
-                    {
-                        name: "updateSpec",
-                        description: "Update the design brief.",
-                        parameters: { type: "OBJECT", properties: { content: { type: "STRING" } }, required: ["content"] }
-                    },
-                    {
-                        name: "askFollowUpQuestions",
-                        description: "Propose strategic questions.",
-                        parameters: { 
-                            type: "OBJECT", 
-                            properties: { 
-                                intro: { type: "STRING" },
-                                qs: { type: "ARRAY", items: { type: "STRING" } }
-                            }, 
-                            required: ["intro", "qs"] 
-                        }
-                    }
-                ]}]
+                inputAudioTranscription: {},
+                outputAudioTranscription: {},
+                tools: tools.length ? [{ functionDeclarations: tools }] : undefined
             }
         };
-        // If called from onopen, readyState is OPEN.
-        this.safeSend(msg);
-    }
-
-    sendToolResponse(functionCallId: string, name: string, response: any) {
-        this.safeSend({
-            toolResponse: {
-                functionResponses: [{
-                    id: functionCallId,
-                    name: name,
-                    response: { result: response }
-                }]
-            }
-        });
+        // Sent straight away on open; everything else waits for setupComplete
+        this.ws?.send(JSON.stringify(msg));
+    }
+
+    sendToolResponse(functionCallId: string, name: string, response: unknown) {
+        this.safeSend(toolResponse(functionCallId, name, response));
     }
 
     sendAudio(b64: string) {
-        this.safeSend({
-            realtimeInput: {
-                mediaChunks: [{
-                    mimeType: "audio/pcm;rate=24000",
-                    data: b64
-                }]
-            }
-        });
+        // Live audio is worthless once stale, so it is dropped rather than queued while reconnecting
+        if (!this.ready) return;
+        this.safeSend(mediaChunk(`audio/pcm;rate=${INPUT_SAMPLE_RATE}`, b64));
+    }
+
+    /**
+     * A still image (e.g. a reference screenshot). Unlike audio it is queued
+     * while the connection is not ready.
+     */
+    sendImage(mimeType: string, b64: string) {
+        this.safeSend(mediaChunk(mimeType, b64));
+    }
+
+    /**
+     * Starts sharing the screen or camera; frames go out alongside the
+     * microphone audio until stopVideo. Rejects if the user refuses.
+     */
+    async startVideo(source: VideoSource) {
+        await this.video.start(source, (b64) => this.sendVideoFrame(b64));
+        if (this.video.source) this.emit("video", source);
+    }
+
+    stopVideo() {
+        if (!this.video.source) return;
+        this.video.stop();
+        this.emit("video", null);
+    }
+
+    sendVideoFrame(b64: string) {
+        // Like audio, a stale frame is worthless; the next one follows shortly
+        if (!this.ready) return;
+        this.safeSend(mediaChunk("image/jpeg", b64));
+    }
+
+    /**
+     * Tells the server no more audio is coming for now, so it does not wait on
+     * trailing silence that the local gate never sends. The turn context goes
+     * first, so the model reads it with the turn it belongs to.
+     */
+    sendAudioStreamEnd() {
+        if (!this.ready) return;
+        const context = this.turnContext?.();
+        if (context) this.safeSend(textTurn(context, false));
+        this.safeSend(audioStreamEnd());
     }
 
     sendText(text: string) {
-        this.safeSend({
-            clientContent: {
-                turns: [{
-                    role: "user",
-                    parts: [{ text }]
-                }],
-                turnComplete: true
-            }
-        });
+        this.safeSend(textTurn(text, true));
+    }
+
+    /**
+     * Adds context to the conversation without asking the model to reply right away.
+     */
+    sendContext(text: string) {
+        this.safeSend(textTurn(text, false));
     }
 
     disconnect() {
+        this.closedByUser = true;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
         this.ws?.close();
         this.audio.stopRecording();
+        this.audio.flushPlayback();
+        this.video.stop();
         this.ws = null;
+        this.ready = false;
         this.msgQueue = [];
     }
 }
@@ -0,0 +1,295 @@
+import type { VideoSource } from "./video-streamer";
+
+/**
+ * Message model for the Gemini Live BidiGenerateContent WebSocket.
+ * - Client messages are built through typed helpers instead of ad-hoc objects.
+ * - Server messages are validated on the way in; malformed fields are dropped
+ *   rather than passed on as `any`.
+ * - A validated message is split into ordered events (audio, text, tool calls, ...)
+ *   that LiveClient emits to its listeners.
+ */
+
+// --- Shared ---
+
+export interface InlineData {
+    mimeType: string;
+    /** Base64 payload. */
+    data: string;
+}
+
+export interface Part {
+    text?: string;
+    /** Set on reasoning text that is not meant for the user. */
+    thought?: boolean;
+    inlineData?: InlineData;
+}
+
+/** The OpenAPI subset the Live API accepts for function parameters. */
+export interface ToolSchema {
+    type: "OBJECT" | "STRING" | "INTEGER" | "NUMBER" | "BOOLEAN" | "ARRAY";
+    description?: string;
+    properties?: Record<string, ToolSchema>;
+    required?: string[];
+    items?: ToolSchema;
+    enum?: string[];
+}
+
+export interface FunctionDeclaration {
+    name: string;
+    description: string;
+    parameters?: ToolSchema;
+}
+
+// --- Client messages ---
+
+export interface SetupMessage {
+    setup: {
+        model: string;
+        generationConfig: {
+            responseModalities: ("AUDIO" | "TEXT")[];
+            speechConfig?: { voiceConfig: { prebuiltVoiceConfig: { voiceName: string } } };
+        };
+        systemInstruction: { parts: Part[] };
+        inputAudioTranscription?: {};
+        outputAudioTranscription?: {};
+        tools?: { functionDeclarations: FunctionDeclaration[] }[];
+    };
+}
+
+export interface ClientContentMessage {
+    clientContent: {
+        turns: { role: "user" | "model", parts: Part[] }[];
+        turnComplete: boolean;
+    };
+}
+
+export interface RealtimeInputMessage {
+    realtimeInput: { mediaChunks: InlineData[] } | { audioStreamEnd: true };
+}
+
+export interface FunctionResponse {
+    id: string;
+    name: string;
+    response: Record<string, unknown>;
+}
+
+export interface ToolResponseMessage {
+    toolResponse: { functionResponses: FunctionResponse[] };
+}
+
+export type ClientMessage = SetupMessage | ClientContentMessage | RealtimeInputMessage | ToolResponseMessage;
+
+export const textTurn = (text: string, turnComplete: boolean): ClientContentMessage => ({
+    clientContent: { turns: [{ role: "user", parts: [{ text }] }], turnComplete }
+});
+
+export const mediaChunk = (mimeType: string, data: string): RealtimeInputMessage => ({
+    realtimeInput: { mediaChunks: [{ mimeType, data }] }
+});
+
+export const audioStreamEnd = (): RealtimeInputMessage => ({ realtimeInput: { audioStreamEnd: true } });
+
+export const toolResponse = (id: string, name: string, result: unknown): ToolResponseMessage => ({
+    toolResponse: { functionResponses: [{ id, name, response: { result } }] }
+});
+
+// --- Server messages ---
+
+export interface FunctionCall {
+    id: string;
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export interface ServerContent {
+    modelTurn?: { parts: Part[] };
+    turnComplete?: boolean;
+    generationComplete?: boolean;
+    interrupted?: boolean;
+    inputTranscription?: { text: string };
+    outputTranscription?: { text: string };
+}
+
+export interface UsageMetadata {
+    promptTokenCount?: number;
+    responseTokenCount?: number;
+    totalTokenCount?: number;
+}
+
+export interface ServerMessage {
+    setupComplete?: {};
+    serverContent?: ServerContent;
+    toolCall?: { functionCalls: FunctionCall[] };
+    toolCallCancellation?: { ids: string[] };
+    /** The server will close the connection soon; `timeLeft` is a duration such as "10s". */
+    goAway?: { timeLeft?: string };
+    usageMetadata?: UsageMetadata;
+}
+
+export class ProtocolError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ProtocolError";
+    }
+}
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === "string";
+
+function parsePart(raw: unknown): Part | null {
+    if (!isObject(raw)) return null;
+    const part: Part = {};
+    if (isString(raw.text)) part.text = raw.text;
+    if (raw.thought === true) part.thought = true;
+    if (isObject(raw.inlineData) && isString(raw.inlineData.data)) {
+        part.inlineData = { mimeType: isString(raw.inlineData.mimeType) ? raw.inlineData.mimeType : "", data: raw.inlineData.data };
+    }
+    return part.text !== undefined || part.inlineData ? part : null;
+}
+
+function parseServerContent(raw: Record<string, any>): ServerContent {
+    const content: ServerContent = {};
+    if (isObject(raw.modelTurn) && Array.isArray(raw.modelTurn.parts)) {
+        const parts = raw.modelTurn.parts.map(parsePart).filter((p: Part | null): p is Part => !!p);
+        if (parts.length) content.modelTurn = { parts };
+    }
+    for (const flag of ["turnComplete", "generationComplete", "interrupted"] as const) {
+        if (raw[flag] === true) content[flag] = true;
+    }
+    for (const key of ["inputTranscription", "outputTranscription"] as const) {
+        if (isObject(raw[key]) && isString(raw[key].text)) content[key] = { text: raw[key].text };
+    }
+    return content;
+}
+
+function parseFunctionCall(raw: unknown): FunctionCall | null {
+    if (!isObject(raw) || !isString(raw.name)) return null;
+    return { id: isString(raw.id) ? raw.id : "", name: raw.name, args: isObject(raw.args) ? raw.args : {} };
+}
+
+/**
+ * Validates one server frame. Throws ProtocolError when it is not a JSON
+ * object; unknown or malformed fields are dropped.
+ */
+export function parseServerMessage(text: string): ServerMessage {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new ProtocolError("Server message is not valid JSON.");
+    }
+    if (!isObject(raw)) throw new ProtocolError("Server message is not an object.");
+
+    const msg: ServerMessage = {};
+    if (isObject(raw.setupComplete)) msg.setupComplete = {};
+    if (isObject(raw.serverContent)) msg.serverContent = parseServerContent(raw.serverContent);
+    if (isObject(raw.toolCall) && Array.isArray(raw.toolCall.functionCalls)) {
+        msg.toolCall = { functionCalls: raw.toolCall.functionCalls.map(parseFunctionCall).filter((c: FunctionCall | null): c is FunctionCall => !!c) };
+    }
+    if (isObject(raw.toolCallCancellation) && Array.isArray(raw.toolCallCancellation.ids)) {
+        msg.toolCallCancellation = { ids: raw.toolCallCancellation.ids.filter(isString) };
+    }
+    if (isObject(raw.goAway)) msg.goAway = isString(raw.goAway.timeLeft) ? { timeLeft: raw.goAway.timeLeft } : {};
+    if (isObject(raw.usageMetadata)) {
+        const usage: UsageMetadata = {};
+        for (const key of ["promptTokenCount", "responseTokenCount", "totalTokenCount"] as const) {
+            if (typeof raw.usageMetadata[key] === "number") usage[key] = raw.usageMetadata[key];
+        }
+        msg.usageMetadata = usage;
+    }
+    return msg;
+}
+
+// --- Events ---
+
+export type ConnectionState = "connected" | "reconnecting" | "disconnected";
+
+export interface LiveEvents {
+    setupComplete: void;
+    /** One model audio part (base64 PCM). */
+    audio: InlineData;
+    /** One model text part. */
+    text: { text: string, thought: boolean };
+    inputTranscription: string;
+    outputTranscription: string;
+    /** The user talked over the model; queued model audio is void. */
+    interrupted: void;
+    turnComplete: void;
+    generationComplete: void;
+    toolCall: FunctionCall[];
+    toolCallCancellation: string[];
+    goAway: { timeLeft?: string };
+    usage: UsageMetadata;
+    // Client-side state, not from server frames
+    connectionState: { state: ConnectionState, attempt?: number, delay?: number, error?: string };
+    playback: "playing" | "stopped";
+    audioError: string;
+    /** Screen or camera sharing started (the source) or stopped (null). */
+    video: VideoSource | null;
+    /** Every validated server message, before it is split into events. */
+    message: ServerMessage;
+}
+
+export type LiveEvent = { [K in keyof LiveEvents]: { type: K, data: LiveEvents[K] } }[keyof LiveEvents];
+
+/**
+ * Splits a server message into events, in the order a listener should see
+ * them (e.g. interruption before new audio, content before turnComplete).
+ */
+export function serverEvents(msg: ServerMessage): LiveEvent[] {
+    const events: LiveEvent[] = [];
+    if (msg.setupComplete) events.push({ type: "setupComplete", data: undefined });
+
+    const content = msg.serverContent;
+    if (content) {
+        if (content.interrupted) events.push({ type: "interrupted", data: undefined });
+        if (content.inputTranscription) events.push({ type: "inputTranscription", data: content.inputTranscription.text });
+        for (const part of content.modelTurn?.parts ?? []) {
+            if (part.inlineData) events.push({ type: "audio", data: part.inlineData });
+            if (part.text !== undefined) events.push({ type: "text", data: { text: part.text, thought: !!part.thought } });
+        }
+        if (content.outputTranscription) events.push({ type: "outputTranscription", data: content.outputTranscription.text });
+        if (content.generationComplete) events.push({ type: "generationComplete", data: undefined });
+        if (content.turnComplete) events.push({ type: "turnComplete", data: undefined });
+    }
+
+    if (msg.toolCall?.functionCalls.length) events.push({ type: "toolCall", data: msg.toolCall.functionCalls });
+    if (msg.toolCallCancellation?.ids.length) events.push({ type: "toolCallCancellation", data: msg.toolCallCancellation.ids });
+    if (msg.goAway) events.push({ type: "goAway", data: msg.goAway });
+    if (msg.usageMetadata) events.push({ type: "usage", data: msg.usageMetadata });
+    return events;
+}
+
+type Listener<T> = (data: T) => void;
+
+/**
+ * Minimal typed event emitter. `on` returns the matching unsubscribe function.
+ */
+export class Emitter<Events> {
+    private listeners = new Map<keyof Events, Set<Listener<any>>>();
+
+    on<K extends keyof Events>(event: K, fn: Listener<Events[K]>) {
+        if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+        this.listeners.get(event)!.add(fn);
+        return () => this.off(event, fn);
+    }
+
+    off<K extends keyof Events>(event: K, fn: Listener<Events[K]>) {
+        this.listeners.get(event)?.delete(fn);
+    }
+
+    emit<K extends keyof Events>(event: K, data: Events[K]) {
+        // A throwing listener must not stop the others (or the socket handler)
+        this.listeners.get(event)?.forEach(fn => {
+            try {
+                fn(data);
+            } catch (e) {
+                console.error(`Listener for "${String(event)}" failed`, e);
+            }
+        });
+    }
+
+    removeAllListeners() {
+        this.listeners.clear();
+    }
+}
@@ -0,0 +1,122 @@
+import { findSection, removeSection, upsertSection } from "./spec-sections";
+
+/**
+ * Reference images collected during the interview (screenshots, competitor
+ * sites, sketches).
+ * - Images are shown to the live model as realtime image input.
+ * - The brief carries a "Moodboard" section that points at them with
+ *   `moodboard:<id>` image links, so the markdown stays small.
+ * - The model tags images as "like" or "avoid" with a reason.
+ */
+
+export type ImageTag = "like" | "avoid";
+
+export const IMAGE_TAG_LABELS: Record<ImageTag, string> = {
+    like: "Like",
+    avoid: "Avoid"
+};
+
+export interface MoodboardImage {
+    /** Short and speakable, e.g. "ref-3", so the model can refer to it. */
+    id: string;
+    name: string;
+    /** data: URL of the downscaled JPEG. */
+    dataUrl: string;
+    width: number;
+    height: number;
+    caption: string;
+    tag?: ImageTag;
+    reason?: string;
+    addedAt: number;
+}
+
+export const MOODBOARD_HEADING = "Moodboard";
+export const MOODBOARD_URL = "moodboard:";
+
+/** Longest side sent to the model and kept in the session. */
+const MAX_IMAGE_SIDE = 1024;
+const JPEG_QUALITY = 0.85;
+
+/**
+ * Id for the next image, numbered from a per-session counter that only goes
+ * up: a removed image's id is never handed to a new one, since the brief may
+ * still cite it. Ids in use are honoured for sessions saved without a counter.
+ * Returns the id and the new counter value.
+ */
+export function nextImageId(images: MoodboardImage[], counter = 0) {
+    const highest = images.reduce((max, img) => Math.max(max, Number(img.id.replace(/^ref-/, "")) || 0), 0);
+    const next = Math.max(highest, counter) + 1;
+    return { id: `ref-${next}`, counter: next };
+}
+
+export const captionFromName = (name: string) => name.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " ").trim() || "Reference image";
+
+/**
+ * Decodes a dropped or pasted image and re-encodes it as a JPEG no larger
+ * than MAX_IMAGE_SIDE.
+ */
+export async function prepareImage(blob: Blob, name: string, id: string): Promise<MoodboardImage> {
+    if (!blob.type.startsWith("image/")) throw new Error(`"${name}" is not an image.`);
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(blob);
+    } catch {
+        throw new Error(`"${name}" could not be decoded.`);
+    }
+
+    const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const ctx = canvas.getContext("2d")!;
+    // Transparent areas would turn black in a JPEG
+    ctx.fillStyle = "#FFFFFF";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    return {
+        id,
+        name,
+        dataUrl: canvas.toDataURL("image/jpeg", JPEG_QUALITY),
+        width: canvas.width,
+        height: canvas.height,
+        caption: captionFromName(name),
+        addedAt: Date.now()
+    };
+}
+
+/** Base64 JPEG payload for realtime input. */
+export const imageData = (image: MoodboardImage) => image.dataUrl.slice(image.dataUrl.indexOf(",") + 1);
+
+/**
+ * clientContent text sent with an image, so the model knows how to refer to it.
+ */
+export function imageContext(image: MoodboardImage) {
+    return `[Reference image ${image.id}] The client shared a reference image: "${image.caption}". `
+        + `Ask what they like or dislike about it if that is unclear, then call tagImage with id "${image.id}".`;
+}
+
+/**
+ * Body of the brief's Moodboard section.
+ */
+export function moodboardMarkdown(images: MoodboardImage[]) {
+    return images.map(img => {
+        const alt = img.caption.replace(/[\[\]]/g, "");
+        const verdict = img.tag ? `\n\n**${IMAGE_TAG_LABELS[img.tag]}:** ${img.reason || "No reason given."}` : "";
+        return `![${alt}](${MOODBOARD_URL}${img.id})${verdict}`;
+    }).join("\n\n");
+}
+
+/**
+ * Brings the brief's Moodboard section in line with the images: written when
+ * there are images, removed when the last one goes.
+ */
+export function syncMoodboard(spec: string, images: MoodboardImage[]) {
+    if (images.length) return upsertSection(spec, MOODBOARD_HEADING, moodboardMarkdown(images));
+    return findSection(spec, MOODBOARD_HEADING) ? removeSection(spec, MOODBOARD_HEADING) : spec;
+}
+
+/** Images by their `moodboard:` link, for resolving the brief's image references. */
+export const imagesByUrl = (images: MoodboardImage[]) =>
+    Object.fromEntries(images.map(img => [`${MOODBOARD_URL}${img.id}`, img]));
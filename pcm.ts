@@ -0,0 +1,130 @@
+/**
+ * PCM helpers shared by capture and playback.
+ * - Conversion between Web Audio floats, 16-bit PCM and base64.
+ * - Streaming resampler and fixed-size chunker for the capture path.
+ * Kept free of Web Audio objects so they run (and are tested) outside the browser.
+ */
+
+export function float32ToInt16(float32: Float32Array) {
+    const int16 = new Int16Array(float32.length);
+    for (let i = 0; i < float32.length; i++) {
+        const s = Math.max(-1, Math.min(1, float32[i]));
+        int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    }
+    return int16;
+}
+
+export function int16ToFloat32(int16: Int16Array) {
+    const float32 = new Float32Array(int16.length);
+    for (let i = 0; i < int16.length; i++) {
+        float32[i] = int16[i] / 32768.0;
+    }
+    return float32;
+}
+
+export function arrayBufferToBase64(buffer: ArrayBufferLike) {
+    let binary = '';
+    const bytes = new Uint8Array(buffer);
+    for (let i = 0; i < bytes.byteLength; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+export function base64ToArrayBuffer(base64: string) {
+    const binaryString = atob(base64);
+    const len = binaryString.length;
+    const bytes = new Uint8Array(len);
+    for (let i = 0; i < len; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes.buffer;
+}
+
+/**
+ * Streaming sample rate converter. State is carried between calls, so a
+ * stream split into arbitrary blocks resamples the same as one long buffer.
+ * Downsampling averages each output period (a box filter against aliasing);
+ * upsampling interpolates linearly.
+ */
+export class Resampler {
+    // Read position in units of 1/toRate input samples; integer maths keeps chunk boundaries exact
+    private pos = 0;
+    private pending = new Float32Array(0);
+
+    constructor(public fromRate: number, public toRate: number) {}
+
+    process(input: Float32Array) {
+        const buf = new Float32Array(this.pending.length + input.length);
+        buf.set(this.pending);
+        buf.set(input, this.pending.length);
+
+        const { fromRate, toRate } = this;
+        const out: number[] = [];
+        let pos = this.pos;
+        if (fromRate >= toRate) {
+            while (pos + fromRate <= buf.length * toRate) {
+                const start = Math.floor(pos / toRate);
+                const end = Math.floor((pos + fromRate) / toRate);
+                let sum = 0;
+                for (let i = start; i < end; i++) sum += buf[i];
+                out.push(sum / (end - start));
+                pos += fromRate;
+            }
+        } else {
+            while (pos + toRate < buf.length * toRate) {
+                const i = Math.floor(pos / toRate);
+                const frac = (pos - i * toRate) / toRate;
+                out.push(buf[i] * (1 - frac) + buf[i + 1] * frac);
+                pos += fromRate;
+            }
+        }
+
+        const keep = Math.floor(pos / toRate);
+        this.pending = buf.slice(keep);
+        this.pos = pos - keep * toRate;
+        return Float32Array.from(out);
+    }
+
+    reset() {
+        this.pos = 0;
+        this.pending = new Float32Array(0);
+    }
+}
+
+/**
+ * Collects samples into fixed-size chunks so each WebSocket message carries
+ * a useful amount of audio instead of one 128-sample worklet frame.
+ */
+export class PcmChunker {
+    private buffer: Float32Array;
+    private length = 0;
+
+    constructor(public chunkSize: number, private onChunk: (chunk: Float32Array) => void) {
+        this.buffer = new Float32Array(chunkSize);
+    }
+
+    push(samples: Float32Array) {
+        let offset = 0;
+        while (offset < samples.length) {
+            const n = Math.min(this.chunkSize - this.length, samples.length - offset);
+            this.buffer.set(samples.subarray(offset, offset + n), this.length);
+            this.length += n;
+            offset += n;
+            if (this.length === this.chunkSize) {
+                this.onChunk(this.buffer.slice());
+                this.length = 0;
+            }
+        }
+    }
+
+    /** Emits whatever is buffered as a final, shorter chunk. */
+    flush() {
+        if (this.length > 0) this.onChunk(this.buffer.slice(0, this.length));
+        this.length = 0;
+    }
+
+    clear() {
+        this.length = 0;
+    }
+}
@@ -0,0 +1,364 @@
+import dotenv from "dotenv";
+import fs from "fs";
+import http from "http";
+import path from "path";
+import crypto from "crypto";
+import { WebSocketServer, WebSocket, RawData } from "ws";
+import { GoogleGenAI } from "@google/genai";
+
+/**
+ * Backend proxy that keeps the Gemini API key on the server.
+ * - POST /api/session issues a short-lived signed token to the app's own origin.
+ * - WS   /live?token=... relays the Live (BidiGenerateContent) socket upstream with the key.
+ * - POST /api/generate runs text generation (technical spec) for a token holder.
+ * - Each token is good for one socket or one generation request.
+ * - Per-session usage is logged as JSON lines; token issuance, concurrent sessions and
+ *   message rates are limited per client IP.
+ *
+ * Run with `npm run server`. Reads GEMINI_API_KEY from .env.local / .env.
+ */
+
+// .env.local wins over .env, matching Vite
+dotenv.config({ path: ".env.local", quiet: true });
+dotenv.config({ quiet: true });
+
+const API_KEY = process.env.GEMINI_API_KEY || "";
+const PORT = Number(process.env.PROXY_PORT || 8787);
+const ALLOWED_ORIGIN = process.env.PROXY_ALLOWED_ORIGIN || "http://localhost:3000";
+const TOKEN_SECRET = process.env.PROXY_TOKEN_SECRET || crypto.randomBytes(32).toString("hex");
+const TOKEN_TTL_MS = Number(process.env.PROXY_TOKEN_TTL_MS || 5 * 60 * 1000);
+const MAX_TOKENS_PER_MINUTE = Number(process.env.PROXY_MAX_TOKENS_PER_MINUTE || 20);
+const MAX_SESSIONS_PER_IP = Number(process.env.PROXY_MAX_SESSIONS_PER_IP || 3);
+const MAX_MESSAGES_PER_SECOND = Number(process.env.PROXY_MAX_MESSAGES_PER_SECOND || 300);
+const MAX_GENERATE_PER_MINUTE = Number(process.env.PROXY_MAX_GENERATE_PER_MINUTE || 6);
+// Only honour X-Forwarded-For behind a trusted reverse proxy, otherwise clients could dodge the limits
+const TRUST_FORWARDED = process.env.PROXY_TRUST_FORWARDED === "1";
+const USAGE_LOG = process.env.PROXY_USAGE_LOG || path.join("logs", "proxy-usage.log");
+
+const UPSTREAM = "wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContent";
+const DEFAULT_GENERATE_MODEL = "gemini-2.5-flash";
+const MAX_BODY_BYTES = 1024 * 1024;
+
+if (!API_KEY) {
+    console.error("GEMINI_API_KEY is not set. Add it to .env.local before starting the proxy.");
+    process.exit(1);
+}
+
+// --- Tokens ---
+
+interface TokenClaims {
+    sid: string;
+    ip: string;
+    exp: number;
+}
+
+const sign = (payload: string) => crypto.createHmac("sha256", TOKEN_SECRET).update(payload).digest("base64url");
+
+function issueToken(ip: string) {
+    const claims: TokenClaims = { sid: crypto.randomUUID(), ip, exp: Date.now() + TOKEN_TTL_MS };
+    const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+    return { token: `${payload}.${sign(payload)}`, claims };
+}
+
+function verifyToken(token: string | null, ip: string): TokenClaims | null {
+    if (!token) return null;
+    const [payload, signature] = token.split(".");
+    if (!payload || !signature) return null;
+    const expected = sign(payload);
+    if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+        return null;
+    }
+    try {
+        const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as TokenClaims;
+        return claims.exp > Date.now() && claims.ip === ip ? claims : null;
+    } catch {
+        return null;
+    }
+}
+
+// Token ids that were already used, kept until the token expires
+const usedTokens = new Map<string, number>();
+
+/** Marks a token as spent; false when it was spent before. */
+function spendToken(claims: TokenClaims) {
+    const now = Date.now();
+    usedTokens.forEach((exp, sid) => { if (exp <= now) usedTokens.delete(sid); });
+    if (usedTokens.has(claims.sid)) return false;
+    usedTokens.set(claims.sid, claims.exp);
+    return true;
+}
+
+// --- Rate limits ---
+
+/** Sliding one-minute window per key. */
+class MinuteLimiter {
+    private hits = new Map<string, number[]>();
+
+    constructor(private limit: number) {}
+
+    take(key: string) {
+        const now = Date.now();
+        const recent = (this.hits.get(key) ?? []).filter(t => now - t < 60000);
+        if (recent.length >= this.limit) {
+            this.hits.set(key, recent);
+            return false;
+        }
+        recent.push(now);
+        this.hits.set(key, recent);
+        return true;
+    }
+}
+
+const tokenLimiter = new MinuteLimiter(MAX_TOKENS_PER_MINUTE);
+const generateLimiter = new MinuteLimiter(MAX_GENERATE_PER_MINUTE);
+const activeSessions = new Map<string, number>();
+
+// --- Usage logging ---
+
+interface SessionUsage {
+    sessionId: string;
+    ip: string;
+    startedAt: string;
+    durationMs: number;
+    clientMessages: number;
+    clientBytes: number;
+    serverMessages: number;
+    serverBytes: number;
+    toolCalls: number;
+    totalTokens: number;
+    closeCode: number;
+    closeReason: string;
+}
+
+function logUsage(entry: Record<string, unknown>) {
+    const line = JSON.stringify(entry);
+    console.log(`[usage] ${line}`);
+    fs.mkdir(path.dirname(USAGE_LOG), { recursive: true }, () => {
+        fs.appendFile(USAGE_LOG, line + "\n", (err) => {
+            if (err) console.error("Failed to write usage log", err);
+        });
+    });
+}
+
+// --- HTTP ---
+
+const clientIp = (req: http.IncomingMessage) =>
+    (TRUST_FORWARDED && (req.headers["x-forwarded-for"] as string | undefined)?.split(",")[0].trim())
+    || req.socket.remoteAddress
+    || "unknown";
+
+const CORS_HEADERS = {
+    "Access-Control-Allow-Origin": ALLOWED_ORIGIN,
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS"
+};
+
+// Browsers always send Origin on these requests; anything without it is not the app
+const originAllowed = (req: http.IncomingMessage) => req.headers.origin === ALLOWED_ORIGIN;
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "Content-Type": "application/json", ...CORS_HEADERS });
+    res.end(JSON.stringify(body));
+}
+
+const rawSize = (data: RawData) =>
+    Array.isArray(data) ? data.reduce((n, b) => n + b.length, 0) : data instanceof ArrayBuffer ? data.byteLength : data.length;
+
+function readJson(req: http.IncomingMessage) {
+    return new Promise<any>((resolve, reject) => {
+        let size = 0;
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new Error("Request body too large"));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on("end", () => {
+            try {
+                resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString()) : {});
+            } catch {
+                reject(new Error("Invalid JSON body"));
+            }
+        });
+        req.on("error", reject);
+    });
+}
+
+const ai = new GoogleGenAI({ apiKey: API_KEY });
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host}`);
+    const ip = clientIp(req);
+
+    if (req.method === "OPTIONS") {
+        res.writeHead(204, CORS_HEADERS);
+        return res.end();
+    }
+    if (req.method === "GET" && url.pathname === "/healthz") return sendJson(res, 200, { ok: true });
+
+    if (req.method === "POST" && url.pathname === "/api/session") {
+        if (!originAllowed(req)) return sendJson(res, 403, { error: "Origin not allowed" });
+        if (!tokenLimiter.take(ip)) return sendJson(res, 429, { error: "Too many sessions requested. Try again in a minute." });
+        const { token, claims } = issueToken(ip);
+        return sendJson(res, 200, { token, sessionId: claims.sid, expiresAt: claims.exp });
+    }
+
+    if (req.method === "POST" && url.pathname === "/api/generate") {
+        const bearer = req.headers.authorization?.replace(/^Bearer\s+/i, "") ?? null;
+        const claims = verifyToken(bearer, ip);
+        if (!claims) return sendJson(res, 401, { error: "Invalid or expired token" });
+        if (!generateLimiter.take(ip)) return sendJson(res, 429, { error: "Generation rate limit reached. Try again in a minute." });
+        // Like a socket, a generation takes a fresh token, so a leaked one cannot be replayed
+        if (!spendToken(claims)) return sendJson(res, 401, { error: "Token already used" });
+
+        const started = Date.now();
+        try {
+            const body = await readJson(req);
+            if (typeof body.prompt !== "string" || !body.prompt.trim()) return sendJson(res, 400, { error: "Missing prompt" });
+            const response = await ai.models.generateContent({
+                model: DEFAULT_GENERATE_MODEL,
+                contents: body.prompt,
+                config: typeof body.systemInstruction === "string" ? { systemInstruction: body.systemInstruction } : undefined
+            });
+            logUsage({
+                kind: "generate",
+                sessionId: claims.sid,
+                ip,
+                durationMs: Date.now() - started,
+                totalTokens: response.usageMetadata?.totalTokenCount ?? 0
+            });
+            return sendJson(res, 200, { text: response.text ?? "" });
+        } catch (e: any) {
+            console.error("Generate failed", e);
+            return sendJson(res, 502, { error: e?.message || "Generation failed" });
+        }
+    }
+
+    sendJson(res, 404, { error: "Not found" });
+});
+
+// --- Live relay ---
+
+const wss = new WebSocketServer({ noServer: true });
+
+// Codes 1005/1006/1015 are reserved and cannot be sent in a close frame
+const forwardableCode = (code: number) => (code === 1005 || code === 1006 || code === 1015 ? 1011 : code);
+
+server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host}`);
+    const ip = clientIp(req);
+    const claims = url.pathname === "/live" ? verifyToken(url.searchParams.get("token"), ip) : null;
+
+    if (!originAllowed(req)) {
+        socket.write("HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n");
+        socket.destroy();
+        return;
+    }
+    if (!claims) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+        socket.destroy();
+        return;
+    }
+    if ((activeSessions.get(ip) ?? 0) >= MAX_SESSIONS_PER_IP) {
+        socket.write("HTTP/1.1 429 Too Many Requests\r\nConnection: close\r\n\r\n");
+        socket.destroy();
+        return;
+    }
+    // A token opens one socket; reconnects ask for a new one
+    if (!spendToken(claims)) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+        socket.destroy();
+        return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (client) => relay(client, claims, ip));
+});
+
+function relay(client: WebSocket, claims: TokenClaims, ip: string) {
+    activeSessions.set(ip, (activeSessions.get(ip) ?? 0) + 1);
+
+    const usage: SessionUsage = {
+        sessionId: claims.sid,
+        ip,
+        startedAt: new Date().toISOString(),
+        durationMs: 0,
+        clientMessages: 0,
+        clientBytes: 0,
+        serverMessages: 0,
+        serverBytes: 0,
+        toolCalls: 0,
+        totalTokens: 0,
+        closeCode: 0,
+        closeReason: ""
+    };
+    const started = Date.now();
+    const pending: RawData[] = [];
+    let windowStart = Date.now();
+    let windowCount = 0;
+    let finished = false;
+
+    const upstream = new WebSocket(`${UPSTREAM}?key=${API_KEY}`);
+
+    const finish = (code: number, reason: string) => {
+        if (finished) return;
+        finished = true;
+        usage.durationMs = Date.now() - started;
+        usage.closeCode = code;
+        usage.closeReason = reason;
+        activeSessions.set(ip, Math.max(0, (activeSessions.get(ip) ?? 1) - 1));
+        logUsage({ kind: "live", ...usage });
+        if (client.readyState === WebSocket.OPEN) client.close(forwardableCode(code), reason);
+        if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) upstream.close();
+    };
+
+    client.on("message", (data) => {
+        const now = Date.now();
+        if (now - windowStart >= 1000) {
+            windowStart = now;
+            windowCount = 0;
+        }
+        if (++windowCount > MAX_MESSAGES_PER_SECOND) {
+            finish(1008, "Rate limit exceeded");
+            return;
+        }
+
+        usage.clientMessages++;
+        usage.clientBytes += rawSize(data);
+        if (upstream.readyState === WebSocket.OPEN) upstream.send(data.toString());
+        else pending.push(data);
+    });
+
+    upstream.on("open", () => {
+        while (pending.length) upstream.send(pending.shift()!.toString());
+    });
+
+    upstream.on("message", (data) => {
+        usage.serverMessages++;
+        usage.serverBytes += rawSize(data);
+        const text = data.toString();
+        try {
+            const msg = JSON.parse(text);
+            usage.toolCalls += msg.toolCall?.functionCalls?.length ?? 0;
+            usage.totalTokens = Math.max(usage.totalTokens, msg.usageMetadata?.totalTokenCount ?? 0);
+        } catch {
+            // Non-JSON frames are relayed untouched
+        }
+        if (client.readyState === WebSocket.OPEN) client.send(text);
+    });
+
+    upstream.on("close", (code, reason) => finish(code, reason.toString()));
+    upstream.on("error", (e) => {
+        console.error(`Upstream error (${claims.sid})`, e.message);
+        finish(1011, "Upstream connection failed");
+    });
+    client.on("close", (code, reason) => finish(code, reason.toString()));
+    client.on("error", () => finish(1011, "Client connection error"));
+}
+
+server.listen(PORT, () => {
+    console.log(`SpecBridge proxy listening on http://localhost:${PORT} (allowing ${ALLOWED_ORIGIN})`);
+});
@@ -0,0 +1,157 @@
+import { Resampler, int16ToFloat32, float32ToInt16 } from "./pcm";
+
+/**
+ * In-memory recording of a live session: what the client said and what the
+ * partner answered, on one time line.
+ * - Segments are placed by wall-clock time; idle time between connections is cut out.
+ * - Model audio that was flushed by a barge-in is trimmed, so the recording matches what was heard.
+ * - Renders to WAV, mixed down or as two tracks (client left, partner right).
+ */
+
+export type RecordingTrack = "mic" | "model";
+
+export type RecordingLayout = "mixed" | "tracks";
+
+/** Rate the recording is rendered at (the model's output rate). */
+export const RECORDING_SAMPLE_RATE = 24000;
+
+interface Segment {
+    track: RecordingTrack;
+    /** Seconds from the start of the recording. */
+    start: number;
+    rate: number;
+    samples: Int16Array;
+}
+
+interface Pause {
+    at: number;
+    ms: number;
+}
+
+export class SessionRecorder {
+    readonly startedAt = Date.now();
+    private segments: Segment[] = [];
+    private pauses: Pause[] = [];
+    private pausedAt: number | null = null;
+    /** Where the last mic chunk ended, in recording seconds. */
+    private micEnd = 0;
+
+    get isEmpty() {
+        return this.segments.length === 0;
+    }
+
+    /** Recording time, in seconds, of a wall-clock timestamp (e.g. a transcript turn). */
+    offsetOf(epochMs: number) {
+        const paused = this.pauses.filter(p => p.at < epochMs).reduce((sum, p) => sum + p.ms, 0);
+        return Math.max(0, (epochMs - this.startedAt - paused) / 1000);
+    }
+
+    get duration() {
+        return this.segments.reduce((max, s) => Math.max(max, s.start + s.samples.length / s.rate), 0);
+    }
+
+    /** Stops the clock while no client is connected. */
+    pause() {
+        if (this.pausedAt === null) this.pausedAt = Date.now();
+    }
+
+    resume() {
+        if (this.pausedAt === null) return;
+        this.pauses.push({ at: this.pausedAt, ms: Date.now() - this.pausedAt });
+        this.pausedAt = null;
+    }
+
+    /**
+     * Microphone audio, just captured (so it started one chunk length ago).
+     * Chunks that arrive in a burst, like the VAD pre-roll, are laid out one
+     * after another rather than on top of each other.
+     */
+    addInput(samples: Float32Array, rate: number) {
+        const length = samples.length / rate;
+        const start = Math.max(0, this.micEnd, this.offsetOf(Date.now()) - length);
+        this.micEnd = start + length;
+        this.segments.push({ track: "mic", start, rate, samples: float32ToInt16(samples) });
+    }
+
+    /**
+     * Model audio, scheduled to start playing after `delay` seconds.
+     */
+    addOutput(samples: Float32Array, rate: number, delay: number) {
+        const start = this.offsetOf(Date.now()) + Math.max(0, delay);
+        this.segments.push({ track: "model", start, rate, samples: float32ToInt16(samples) });
+    }
+
+    /**
+     * Drops model audio that was queued but never played because playback was flushed.
+     */
+    cutOutput() {
+        const now = this.offsetOf(Date.now());
+        this.segments = this.segments.flatMap(s => {
+            if (s.track !== "model") return [s];
+            if (s.start >= now) return [];
+            const keep = Math.floor((now - s.start) * s.rate);
+            return keep < s.samples.length ? [{ ...s, samples: s.samples.slice(0, keep) }] : [s];
+        });
+    }
+
+    /** One track on the recording time line at RECORDING_SAMPLE_RATE. */
+    renderTrack(track: RecordingTrack, length = Math.ceil(this.duration * RECORDING_SAMPLE_RATE)) {
+        const out = new Float32Array(length);
+        for (const s of this.segments) {
+            if (s.track !== track) continue;
+            let samples = int16ToFloat32(s.samples);
+            if (s.rate !== RECORDING_SAMPLE_RATE) samples = new Resampler(s.rate, RECORDING_SAMPLE_RATE).process(samples);
+            const offset = Math.round(s.start * RECORDING_SAMPLE_RATE);
+            for (let i = 0; i < samples.length && offset + i < length; i++) out[offset + i] += samples[i];
+        }
+        return out;
+    }
+
+    render(layout: RecordingLayout) {
+        const mic = this.renderTrack("mic");
+        const model = this.renderTrack("model", mic.length);
+        if (layout === "tracks") return encodeWav([mic, model], RECORDING_SAMPLE_RATE);
+
+        const mixed = new Float32Array(mic.length);
+        for (let i = 0; i < mixed.length; i++) mixed[i] = mic[i] + model[i];
+        return encodeWav([mixed], RECORDING_SAMPLE_RATE);
+    }
+}
+
+/**
+ * 16-bit PCM WAV file from one buffer per channel (all the same length).
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number) {
+    const frames = channels[0]?.length ?? 0;
+    const blockAlign = channels.length * 2;
+    const dataSize = frames * blockAlign;
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+    const text = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+
+    text(0, "RIFF");
+    view.setUint32(4, 36 + dataSize, true);
+    text(8, "WAVE");
+    text(12, "fmt ");
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, channels.length, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, 16, true);
+    text(36, "data");
+    view.setUint32(40, dataSize, true);
+
+    const pcm = channels.map(float32ToInt16);
+    let offset = 44;
+    for (let i = 0; i < frames; i++) {
+        for (const ch of pcm) {
+            view.setInt16(offset, ch[i], true);
+            offset += 2;
+        }
+    }
+    return buffer;
+}
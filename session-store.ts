@@ -0,0 +1,97 @@
+import { Question, Turn } from "./types";
+import { SpecRevision } from "./spec-versions";
+import { InputMode } from "./audio-streamer";
+import { ImportedDocument } from "./document-import";
+import { MoodboardImage } from "./moodboard";
+import { Participant } from "./workshop";
+
+/**
+ * Persists discovery interviews in IndexedDB so a refresh or a later visit
+ * can reopen them.
+ */
+
+const DB_NAME = "specbridge";
+const DB_VERSION = 1;
+const STORE = "sessions";
+
+export interface StoredSession {
+    id: string;
+    title: string;
+    clientName: string;
+    createdAt: number;
+    updatedAt: number;
+    spec: string;
+    questions: Question[];
+    history: Turn[];
+    revisions?: SpecRevision[];
+    templateId?: string;
+    inputMode?: InputMode;
+    /** Documents shared with the live model as context. */
+    imports?: ImportedDocument[];
+    moodboard?: MoodboardImage[];
+    /** Highest `ref-N` number handed out so far, removed images included. */
+    imageCounter?: number;
+    /** Workshop participants; empty or missing for a one-to-one interview. */
+    participants?: Participant[];
+}
+
+export function titleFromSpec(spec: string) {
+    const match = spec.match(/^#\s+(.+)$/m);
+    return match ? match[1].trim() : "Untitled Vision";
+}
+
+export function createSessionId() {
+    return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+export class SessionStore {
+    private db: Promise<IDBDatabase> | null = null;
+
+    private open() {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const req = indexedDB.open(DB_NAME, DB_VERSION);
+                req.onupgradeneeded = () => {
+                    const db = req.result;
+                    if (!db.objectStoreNames.contains(STORE)) {
+                        const store = db.createObjectStore(STORE, { keyPath: "id" });
+                        store.createIndex("updatedAt", "updatedAt");
+                    }
+                };
+                req.onsuccess = () => resolve(req.result);
+                req.onerror = () => reject(req.error);
+            });
+        }
+        return this.db;
+    }
+
+    private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+        const db = await this.open();
+        return new Promise<T>((resolve, reject) => {
+            const tx = db.transaction(STORE, mode);
+            const req = run(tx.objectStore(STORE));
+            tx.oncomplete = () => resolve(req.result);
+            tx.onerror = () => reject(tx.error);
+            // A quota error can abort the transaction without firing onerror
+            tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+        });
+    }
+
+    /** Most recently updated first. */
+    async list() {
+        const sessions = await this.request<StoredSession[]>("readonly", s => s.getAll());
+        return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    get(id: string) {
+        return this.request<StoredSession | undefined>("readonly", s => s.get(id));
+    }
+
+    async put(session: StoredSession) {
+        await this.request("readwrite", s => s.put(session));
+    }
+
+    async delete(id: string) {
+        await this.request("readwrite", s => s.delete(id));
+    }
+}
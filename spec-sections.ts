@@ -0,0 +1,131 @@
+/**
+ * Markdown section engine for the brief.
+ * - A section is a heading plus everything up to the next heading of the same or higher level.
+ * - Sections are addressed by heading text, case-insensitively and without the leading #s.
+ *   When a heading appears twice, the first one is used.
+ * - Writes touch a section's own body only; its subsections are left alone.
+ * - The document title (an H1) is only written or removed when the caller asks
+ *   for it, since its section spans the whole brief.
+ */
+
+export interface Section {
+    heading: string;
+    level: number;
+    /** Line index of the heading. */
+    start: number;
+    /** Line index one past the last line of the section (including subsections). */
+    end: number;
+    /** Line index of the first subsection heading, or `end` when there is none. */
+    bodyEnd: number;
+}
+
+export interface SectionOptions {
+    /** Allow targeting an H1, i.e. the document title and everything below it. */
+    allowTitle?: boolean;
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+export const normalizeHeading = (heading: string) =>
+    heading.replace(/^#+\s*/, "").trim().replace(/\s+/g, " ").toLowerCase();
+
+export function parseSections(markdown: string): Section[] {
+    const lines = markdown.split("\n");
+    const sections: Section[] = [];
+    let inFence = false;
+
+    lines.forEach((line, i) => {
+        if (FENCE.test(line)) inFence = !inFence;
+        if (inFence) return;
+        const match = line.match(HEADING);
+        if (match) {
+            sections.push({ heading: match[2], level: match[1].length, start: i, end: lines.length, bodyEnd: lines.length });
+        }
+    });
+
+    sections.forEach((s, i) => {
+        const next = sections.slice(i + 1).find(n => n.level <= s.level);
+        if (next) s.end = next.start;
+        const child = sections[i + 1];
+        s.bodyEnd = child && child.start < s.end ? child.start : s.end;
+    });
+    return sections;
+}
+
+export function findSection(markdown: string, heading: string) {
+    const key = normalizeHeading(heading);
+    return parseSections(markdown).find(s => normalizeHeading(s.heading) === key) ?? null;
+}
+
+/** Body text of a section, excluding its heading line (subsections included). */
+export function sectionBody(markdown: string, heading: string) {
+    const section = findSection(markdown, heading);
+    if (!section) return null;
+    return markdown.split("\n").slice(section.start + 1, section.end).join("\n").trim();
+}
+
+const trimBlock = (text: string) => text.replace(/^\n+|\s+$/g, "");
+
+function splice(markdown: string, start: number, end: number, replacement: string[]) {
+    const lines = markdown.split("\n");
+    lines.splice(start, end - start, ...replacement);
+    return lines.join("\n").replace(/\n{3,}/g, "\n\n").replace(/\s+$/, "") + "\n";
+}
+
+function checkLevel(level: number) {
+    if (!Number.isInteger(level) || level < 1 || level > 6) {
+        throw new Error(`Heading level must be a whole number from 1 to 6, got ${level}`);
+    }
+}
+
+/** The section to write to, refusing the document title unless allowed. */
+function target(markdown: string, heading: string, options: SectionOptions) {
+    const section = findSection(markdown, heading);
+    if (section?.level === 1 && !options.allowTitle) {
+        throw new Error(`"${section.heading}" is the document title; replace the whole brief to change it`);
+    }
+    return section;
+}
+
+function appendNew(markdown: string, heading: string, content: string, level: number) {
+    const title = heading.replace(/^#+\s*/, "").trim();
+    return `${markdown.replace(/\s+$/, "")}\n\n${"#".repeat(level)} ${title}\n\n${trimBlock(content)}\n`;
+}
+
+/**
+ * Replaces the body of a section up to its first subsection, or appends a new
+ * section if none matches.
+ */
+export function upsertSection(markdown: string, heading: string, content: string, level = 2, options: SectionOptions = {}) {
+    checkLevel(level);
+    const section = target(markdown, heading, options);
+    if (!section) return appendNew(markdown, heading, content, level);
+
+    const headingLine = markdown.split("\n")[section.start];
+    return splice(markdown, section.start, section.bodyEnd, [headingLine, "", trimBlock(content), ""]);
+}
+
+/**
+ * Adds content to the end of a section's body, before its subsections,
+ * creating the section if needed.
+ */
+export function appendToSection(markdown: string, heading: string, content: string, level = 2, options: SectionOptions = {}) {
+    checkLevel(level);
+    const section = target(markdown, heading, options);
+    if (!section) return appendNew(markdown, heading, content, level);
+
+    const lines = markdown.split("\n");
+    let end = section.bodyEnd;
+    while (end > section.start + 1 && !lines[end - 1].trim()) end--;
+    return splice(markdown, end, end, ["", trimBlock(content), ""]);
+}
+
+/**
+ * Removes a section and its subsections. Throws when the heading does not exist.
+ */
+export function removeSection(markdown: string, heading: string, options: SectionOptions = {}) {
+    const section = target(markdown, heading, options);
+    if (!section) throw new Error(`Section "${heading}" not found`);
+    return splice(markdown, section.start, section.end, []);
+}
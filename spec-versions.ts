@@ -0,0 +1,85 @@
+/**
+ * Revision history for the brief.
+ * - Every change to the spec is kept with what caused it.
+ * - Line diffs between any two revisions for review and rollback.
+ */
+
+export type RevisionSource = "initial" | "tool" | "manual" | "import" | "rollback";
+
+export interface SpecRevision {
+    id: string;
+    content: string;
+    source: RevisionSource;
+    /** Short human description, e.g. the tool name or "Reverted to v3". */
+    label: string;
+    timestamp: number;
+}
+
+export interface DiffLine {
+    type: "same" | "added" | "removed";
+    text: string;
+}
+
+const MAX_REVISIONS = 200;
+
+export const SOURCE_LABELS: Record<RevisionSource, string> = {
+    initial: "Start",
+    tool: "Model",
+    manual: "Manual edit",
+    import: "Import",
+    rollback: "Rollback"
+};
+
+export function createRevision(content: string, source: RevisionSource, label = ""): SpecRevision {
+    return {
+        id: Math.random().toString(36).slice(2),
+        content,
+        source,
+        label,
+        timestamp: Date.now()
+    };
+}
+
+/**
+ * Appends a revision unless the content did not actually change.
+ */
+export function pushRevision(revisions: SpecRevision[], revision: SpecRevision) {
+    const last = revisions[revisions.length - 1];
+    if (last && last.content === revision.content) return revisions;
+    const next = [...revisions, revision];
+    // Always keep the first revision so the original starting point survives trimming
+    return next.length > MAX_REVISIONS ? [next[0], ...next.slice(next.length - MAX_REVISIONS + 1)] : next;
+}
+
+/**
+ * Line-based diff using a longest-common-subsequence table.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split("\n");
+    const b = after.split("\n");
+    const n = a.length;
+    const m = b.length;
+
+    const lcs = Array.from({ length: n + 1 }, () => new Int32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const out: DiffLine[] = [];
+    let i = 0, j = 0;
+    while (i < n && j < m) {
+        if (a[i] === b[j]) {
+            out.push({ type: "same", text: a[i] });
+            i++; j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            out.push({ type: "removed", text: a[i++] });
+        } else {
+            out.push({ type: "added", text: b[j++] });
+        }
+    }
+    while (i < n) out.push({ type: "removed", text: a[i++] });
+    while (j < m) out.push({ type: "added", text: b[j++] });
+    return out;
+}
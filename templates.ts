@@ -0,0 +1,265 @@
+import { BriefSchema, DEFAULT_BRIEF_SCHEMA } from "./brief-schema";
+import { BRIEF_TOOLS } from "./brief-tools";
+
+/**
+ * Interview templates: everything that shapes one kind of discovery session.
+ * - System prompt, starting brief skeleton and seed questions.
+ * - Voice/persona for the live model and the tools it may call.
+ * - User templates are kept in localStorage and exchanged as JSON files.
+ */
+
+export interface Persona {
+    /** Name the partner introduces itself with. Empty for no name. */
+    name: string;
+    /** Prebuilt Live API voice. */
+    voice: string;
+}
+
+export interface InterviewTemplate {
+    id: string;
+    name: string;
+    description: string;
+    systemPrompt: string;
+    briefSkeleton: string;
+    seedQuestions: string[];
+    persona: Persona;
+    /** Tool names offered to the model; all tools when omitted. */
+    tools?: string[];
+    schema?: BriefSchema;
+    builtIn?: boolean;
+}
+
+export const VOICES = ["Aoede", "Puck", "Charon", "Kore", "Fenrir", "Leda", "Orus", "Zephyr"];
+
+const STORAGE_KEY = "specbridge.templates";
+
+export const INITIAL_SPEC = "# Untitled Vision\n\nWaiting for input...";
+
+const skeleton = (title: string, sections: string[]) =>
+    `# ${title}\n\n${sections.map(s => `## ${s}\n\n`).join("")}`.trimEnd() + "\n";
+
+export const BUILT_IN_TEMPLATES: InterviewTemplate[] = [
+    {
+        id: "vision",
+        name: "Product Vision",
+        description: "Open-ended discovery for a new software idea.",
+        systemPrompt: `
+You are a visionary Design Partner. Your goal is to extract a bold, clear vision from the user for their software idea.
+Protocol:
+1. Listen intently.
+2. If the user's idea is vague, ask 1 provocative question at a time.
+3. If the idea is solid, compliment it.
+4. Keep spoken responses short, punchy, and inspiring. Avoid corporate jargon.
+`,
+        briefSkeleton: INITIAL_SPEC,
+        seedQuestions: [],
+        persona: { name: "", voice: "Aoede" },
+        builtIn: true
+    },
+    {
+        id: "website-redesign",
+        name: "Website Redesign",
+        description: "Audit an existing site and scope the redesign.",
+        systemPrompt: `
+You are a senior web design strategist running a redesign discovery call.
+Protocol:
+1. Find out what the current site gets wrong and what must survive the redesign (content, SEO, integrations).
+2. Pin down audiences, key journeys and the conversions that matter.
+3. Ask one focused question at a time and confirm numbers back to the client.
+4. Keep spoken responses short and concrete.
+`,
+        briefSkeleton: skeleton("Website Redesign", ["Goals", "Current Site", "Audience", "Key Journeys", "Constraints", "Budget", "Success Metrics"]),
+        seedQuestions: [
+            "What is the one thing the current site fails at?",
+            "Which pages or content must survive the redesign?",
+            "What should a first-time visitor do within 30 seconds?"
+        ],
+        persona: { name: "", voice: "Kore" },
+        builtIn: true
+    },
+    {
+        id: "mobile-app",
+        name: "Mobile App",
+        description: "Scope a new iOS/Android product.",
+        systemPrompt: `
+You are a mobile product designer running a discovery interview for a new app.
+Protocol:
+1. Establish the core loop: why someone opens the app, what they do, why they come back.
+2. Cover platforms, offline needs, notifications, accounts and payments.
+3. Ask one question at a time; challenge feature lists that do not serve the core loop.
+4. Keep spoken responses short and energetic.
+`,
+        briefSkeleton: skeleton("Mobile App", ["Goals", "Audience", "Core Loop", "Platforms", "Constraints", "Budget", "Success Metrics"]),
+        seedQuestions: [
+            "Why would someone open this app on a Tuesday morning?",
+            "iOS, Android or both at launch?",
+            "Does it need to work offline?"
+        ],
+        persona: { name: "", voice: "Puck" },
+        builtIn: true
+    },
+    {
+        id: "brand-identity",
+        name: "Brand Identity",
+        description: "Personality, positioning and visual direction.",
+        systemPrompt: `
+You are a brand strategist running an identity discovery session.
+Protocol:
+1. Draw out the brand's personality, values and the story behind it.
+2. Probe positioning against competitors and what the brand must never feel like.
+3. Collect concrete references: colours, typefaces, brands they admire or want to avoid.
+4. Ask one evocative question at a time and keep spoken responses short.
+`,
+        briefSkeleton: skeleton("Brand Identity", ["Goals", "Audience", "Personality", "Positioning", "Visual Direction", "Budget", "Success Metrics"]),
+        seedQuestions: [
+            "If the brand walked into a room, how would people describe it?",
+            "Which competitor do you never want to be mistaken for?",
+            "Name a brand outside your industry you admire."
+        ],
+        persona: { name: "", voice: "Leda" },
+        schema: {
+            id: "brand-identity",
+            name: "Brand Brief",
+            sections: [
+                { heading: "Goals", aliases: ["Objectives"], required: true, hint: "What the new identity must change." },
+                { heading: "Audience", required: true, hint: "Who the brand speaks to." },
+                { heading: "Personality", aliases: ["Values"], required: true, hint: "Traits, values and tone of voice." },
+                { heading: "Positioning", required: true, hint: "Where the brand sits against competitors." },
+                { heading: "Visual Direction", aliases: ["References"], required: true, hint: "Colours, type and references to follow or avoid." },
+                { heading: "Budget", required: true, hint: "Budget range and deadline.", fields: ["Range", "Deadline"] },
+                { heading: "Success Metrics", required: false, hint: "How the rebrand will be judged." }
+            ]
+        },
+        builtIn: true
+    },
+    {
+        id: "internal-tool",
+        name: "Internal Tool",
+        description: "Workflow tooling for a team inside the client's company.",
+        systemPrompt: `
+You are a pragmatic product designer scoping an internal tool.
+Protocol:
+1. Map the current workflow step by step, including spreadsheets and workarounds.
+2. Identify users and roles, permissions, data sources and systems to integrate with.
+3. Quantify the pain: time lost, errors, volume.
+4. Ask one precise question at a time; keep spoken responses short and plain.
+`,
+        briefSkeleton: skeleton("Internal Tool", ["Goals", "Audience", "Current Workflow", "Integrations", "Constraints", "Budget", "Success Metrics"]),
+        seedQuestions: [
+            "Walk me through how this work gets done today.",
+            "Which systems hold the data this tool needs?",
+            "Who needs access, and who must not?"
+        ],
+        persona: { name: "", voice: "Charon" },
+        builtIn: true
+    }
+];
+
+export const DEFAULT_TEMPLATE = BUILT_IN_TEMPLATES[0];
+
+export const templateSchema = (t: InterviewTemplate) => t.schema ?? DEFAULT_BRIEF_SCHEMA;
+
+/**
+ * System prompt with the persona applied.
+ */
+export function templatePrompt(t: InterviewTemplate) {
+    return t.persona.name ? `${t.systemPrompt}\nYour name is ${t.persona.name}. Introduce yourself by that name.\n` : t.systemPrompt;
+}
+
+// --- Import / Export ---
+
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(x => typeof x === "string");
+
+function parseTools(tools: unknown) {
+    if (!isStringArray(tools)) throw new Error(`"tools" must be a list of tool names`);
+    const known = BRIEF_TOOLS.map(t => t.declaration.name);
+    const unknown = tools.filter(t => !known.includes(t));
+    if (unknown.length) throw new Error(`Unknown tools: ${unknown.join(", ")}. Available tools: ${known.join(", ")}`);
+    const repeated = tools.filter((t, i) => tools.indexOf(t) !== i);
+    if (repeated.length) throw new Error(`Tools are listed more than once: ${[...new Set(repeated)].join(", ")}`);
+}
+
+/**
+ * Checks every schema section, since a malformed one would break brief scoring.
+ */
+function parseSchema(schema: any): BriefSchema {
+    if (!Array.isArray(schema?.sections)) throw new Error(`"schema" must have a "sections" list`);
+    schema.sections.forEach((section: any, i: number) => {
+        const where = `"schema" section ${i + 1}`;
+        if (!section || typeof section !== "object") throw new Error(`${where} must be an object`);
+        if (typeof section.heading !== "string" || !section.heading.trim()) throw new Error(`${where} is missing "heading"`);
+        if (typeof section.required !== "boolean") throw new Error(`${where} needs "required" to be true or false`);
+        if (typeof section.hint !== "string") throw new Error(`${where} needs "hint" to be a string`);
+        for (const key of ["aliases", "fields"]) {
+            if (section[key] !== undefined && !isStringArray(section[key])) throw new Error(`${where} needs "${key}" to be a list of strings`);
+        }
+        if (section.minWords !== undefined && typeof section.minWords !== "number") throw new Error(`${where} needs "minWords" to be a number`);
+    });
+    return schema;
+}
+
+/**
+ * Validates an imported template. Throws with a readable message on bad input.
+ */
+export function parseTemplate(json: string): InterviewTemplate {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("Template is not valid JSON");
+    }
+    if (!data || typeof data !== "object") throw new Error("Template must be a JSON object");
+
+    for (const key of ["name", "systemPrompt", "briefSkeleton"]) {
+        if (typeof data[key] !== "string" || !data[key].trim()) throw new Error(`Template is missing "${key}"`);
+    }
+    if (data.seedQuestions !== undefined && !isStringArray(data.seedQuestions)) {
+        throw new Error(`"seedQuestions" must be a list of strings`);
+    }
+    if (data.tools !== undefined) parseTools(data.tools);
+    if (data.schema !== undefined) parseSchema(data.schema);
+
+    const voice = VOICES.includes(data.persona?.voice) ? data.persona.voice : DEFAULT_TEMPLATE.persona.voice;
+    return {
+        id: typeof data.id === "string" && data.id ? data.id : `custom-${Date.now().toString(36)}`,
+        name: data.name.trim(),
+        description: typeof data.description === "string" ? data.description : "",
+        systemPrompt: data.systemPrompt,
+        briefSkeleton: data.briefSkeleton,
+        seedQuestions: data.seedQuestions ?? [],
+        persona: { name: typeof data.persona?.name === "string" ? data.persona.name : "", voice },
+        tools: data.tools,
+        schema: data.schema
+    };
+}
+
+export function serializeTemplate(t: InterviewTemplate) {
+    const { builtIn, ...rest } = t;
+    return JSON.stringify(rest, null, 2);
+}
+
+/**
+ * Saved templates; one that no longer validates is skipped without losing the others.
+ */
+export function loadUserTemplates(): InterviewTemplate[] {
+    let stored: unknown;
+    try {
+        stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    } catch (e) {
+        console.error("Failed to load user templates", e);
+        return [];
+    }
+    if (!Array.isArray(stored)) return [];
+    return stored.flatMap((json, i) => {
+        try {
+            return [parseTemplate(json)];
+        } catch (e: any) {
+            console.error(`Skipping saved template ${i + 1}: ${e?.message}`);
+            return [];
+        }
+    });
+}
+
+export function saveUserTemplates(templates: InterviewTemplate[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates.map(serializeTemplate)));
+}
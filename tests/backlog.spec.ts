@@ -0,0 +1,74 @@
+import { test, expect } from '@playwright/test';
+import { Backlog, formatBacklog, parseBacklog, toCsv } from '../backlog';
+
+const backlog: Backlog = {
+  epics: [{
+    title: 'Watering',
+    description: 'Reminders to water plants.',
+    stories: [{
+      title: 'Get a reminder',
+      description: 'As an owner, I want a reminder, so that my plants survive.',
+      acceptanceCriteria: ['Reminder fires at 9am', '', 'Snooze, for "an hour"'],
+    }],
+  }],
+  openQuestions: ['Which sensors?', ' '],
+};
+
+test('parseBacklog accepts fenced JSON and drops untitled entries', () => {
+  const parsed = parseBacklog('```json\n{"epics":[{"title":" A ","stories":[{"title":"S","acceptanceCriteria":["x",3]},{"title":""}]},{"title":""}]}\n```');
+  expect(parsed).toEqual({
+    epics: [{ title: 'A', description: '', stories: [{ title: 'S', description: '', acceptanceCriteria: ['x'] }] }],
+    openQuestions: [],
+  });
+});
+
+test('parseBacklog explains bad output', () => {
+  expect(() => parseBacklog('Here is your backlog!')).toThrow('did not return valid JSON');
+  expect(() => parseBacklog('{"stories":[]}')).toThrow('missing "epics"');
+  expect(() => parseBacklog('{"epics":[]}')).toThrow('no epics');
+});
+
+test('GitHub issues carry labels and an acceptance checklist', () => {
+  const issues = JSON.parse(formatBacklog(backlog, 'github'));
+  expect(issues.map((i: any) => [i.title, i.labels[0]])).toEqual([
+    ['[Epic] Watering', 'epic'], ['Get a reminder', 'story'], ['Which sensors?', 'question'],
+  ]);
+  expect(issues[1].body).toContain('- [ ] Reminder fires at 9am\n- [ ] Snooze, for "an hour"');
+});
+
+test('Jira CSV links stories to their epic', () => {
+  const rows = formatBacklog(backlog, 'jira').trim().split('\r\n');
+  expect(rows[0]).toBe('Issue Id,Parent Id,Issue Type,Summary,Description,Labels');
+  expect(rows[1]).toBe('1,,Epic,Watering,Reminders to water plants.,specbridge');
+  expect(rows[2]).toMatch(/^2,1,Story,Get a reminder,"As an owner/);
+  expect(rows[rows.length - 1]).toBe('3,,Task,Open question: Which sensors?,Open question from the discovery session.,specbridge');
+});
+
+test('CSV cells with commas, quotes and newlines are quoted', () => {
+  expect(toCsv([['a', 'b,c', 'say "hi"', 'x\ny']])).toBe('a,"b,c","say ""hi""","x\ny"\r\n');
+});
+
+test('CSV cells that would run as spreadsheet formulas are defused', () => {
+  expect(toCsv([['=HYPERLINK("x")', '+1', '-2', '@SUM(A1)', 'a=b']])).toBe(`"'=HYPERLINK(""x"")",'+1,'-2,'@SUM(A1),a=b\r\n`);
+  const jira = formatBacklog({ epics: [{ title: '@Ops', description: '', stories: [{ title: '=cmd|"/c calc"!A1', description: '', acceptanceCriteria: [] }] }], openQuestions: [] }, 'jira');
+  expect(jira).toContain(`,Epic,'@Ops,`);
+  expect(jira).toContain(`,Story,"'=cmd|""/c calc""!A1",`);
+  const linear = formatBacklog({ epics: [], openQuestions: ['=1+1'] }, 'linear');
+  expect(linear).toContain(`'=1+1,Open question`);
+});
+
+test('markup descriptions keep their leading list markers', () => {
+  const epic = { title: '-Ops', description: '- Pager duty\n- Runbooks', stories: [] };
+  const linear = formatBacklog({ epics: [epic], openQuestions: [] }, 'linear');
+  expect(linear).toContain(`'-Ops,"- Pager duty\n- Runbooks",Backlog,Epic`);
+  const jira = formatBacklog({ epics: [epic], openQuestions: [] }, 'jira');
+  expect(jira).toContain(`,Epic,'-Ops,"- Pager duty\n- Runbooks",specbridge`);
+  expect(toCsv([['-a', '-b']], [1])).toBe(`'-a,-b\r\n`);
+});
+
+test('Linear CSV labels stories with their epic', () => {
+  const rows = formatBacklog(backlog, 'linear').trim().split('\r\n');
+  expect(rows[0]).toBe('Title,Description,Status,Labels');
+  expect(rows[1]).toBe('Watering,Reminders to water plants.,Backlog,Epic');
+  expect(formatBacklog(backlog, 'linear')).toContain(',Backlog,Watering\r\n');
+});
@@ -0,0 +1,66 @@
+import { test, expect } from '@playwright/test';
+import { DEFAULT_THEME, buildExportDocument, parseBlocks, parseInline, renderHtml } from '../brief-export';
+
+test('parseBlocks covers the markdown briefs use', () => {
+  const blocks = parseBlocks([
+    '# Plant Pal', '', 'Keeps plants', 'alive.', '', '## Goals', '- One', '- Two', '  continued', '',
+    '1. First', '2. Second', '', '> Quote', '', '| A | B |', '|---|---|', '| 1 | 2 |', '', '---', '', '```', '# not a heading', '```'
+  ].join('\n'));
+  expect(blocks.map(b => b.type)).toEqual(['heading', 'paragraph', 'heading', 'list', 'list', 'quote', 'table', 'rule', 'code']);
+  expect(blocks[1]).toEqual({ type: 'paragraph', runs: [{ text: 'Keeps plants alive.' }] });
+  expect(blocks[3]).toMatchObject({ ordered: false, items: [[{ text: 'One' }], [{ text: 'Two continued' }]] });
+  expect(blocks[8]).toEqual({ type: 'code', text: '# not a heading' });
+});
+
+test('parseInline keeps emphasis and drops link targets', () => {
+  expect(parseInline('**Bold**, *it*, `code` and [site](https://x.y)')).toEqual([
+    { text: 'Bold', bold: true }, { text: ', ' }, { text: 'it', italic: true }, { text: ', ' },
+    { text: 'code', code: true }, { text: ' and ' }, { text: 'site' }
+  ]);
+});
+
+test('export document follows the chosen parts and escapes HTML', () => {
+  const doc = buildExportDocument({
+    spec: '# Plant <Pal>\n\nBrief body',
+    devSpec: null,
+    history: [],
+    questions: [{ id: 'q', text: 'Who waters?', answered: true, answer: 'The app' }],
+    parts: ['qa', 'brief', 'techSpec'],
+    clientName: ' Acme ',
+    agencyName: 'Studio',
+    logo: null,
+    theme: DEFAULT_THEME,
+  });
+  // Document order, not selection order; the tech spec is skipped when missing
+  expect(doc.sections.map(s => s.part)).toEqual(['brief', 'qa']);
+  expect(doc.cover).toMatchObject({ title: 'Plant <Pal>', clientName: 'Acme' });
+
+  const html = renderHtml(doc);
+  expect(html).toContain('<h1>Plant &lt;Pal&gt;</h1>');
+  expect(html).toContain('Prepared for Acme by Studio');
+  expect(html).toContain('The app');
+});
+
+test('moodboard images resolve to figures and unknown images to their alt text', () => {
+  const blocks = parseBlocks('## Moodboard\n\n![Calm greens](moodboard:ref-1)\n\n![Missing](https://x.y/a.png)');
+  expect(blocks.slice(1)).toEqual([
+    { type: 'image', alt: 'Calm greens', src: 'moodboard:ref-1' },
+    { type: 'image', alt: 'Missing', src: 'https://x.y/a.png' },
+  ]);
+
+  const doc = buildExportDocument({
+    spec: '# Plant Pal\n\n![Calm greens](moodboard:ref-1)\n\n![Missing](https://x.y/a.png)',
+    devSpec: null,
+    history: [],
+    questions: [],
+    parts: ['brief'],
+    clientName: '',
+    agencyName: '',
+    logo: null,
+    theme: DEFAULT_THEME,
+    images: { 'moodboard:ref-1': { dataUrl: 'data:image/jpeg;base64,AAAA', width: 4, height: 3 } },
+  });
+  const html = renderHtml(doc);
+  expect(html).toContain('<figure><img src="data:image/jpeg;base64,AAAA" alt="Calm greens"><figcaption>Calm greens</figcaption></figure>');
+  expect(html).toContain('<p><em>Missing</em></p>');
+});
@@ -0,0 +1,44 @@
+import { test, expect } from '@playwright/test';
+import { MAX_IMPORT_CHARS, briefFromImport, createImport, importContext, importKindOf, normalizeText, readImportFile } from '../document-import';
+
+test('import kinds come from the file type or extension', () => {
+  expect(importKindOf(new File([''], 'RFP.PDF'))).toBe('pdf');
+  expect(importKindOf(new File([''], 'brief.md'))).toBe('markdown');
+  expect(importKindOf(new File([''], 'notes', { type: 'text/plain' }))).toBe('text');
+  expect(importKindOf(new File([''], 'deck.pptx'))).toBeNull();
+});
+
+test('normalizeText tidies line endings and blank runs', () => {
+  expect(normalizeText('  \r\nOne  \r\n\r\n\r\n\r\nTwo\rThree\n\n')).toBe('One\n\nTwo\nThree');
+});
+
+test('createImport rejects empty text and truncates long text', () => {
+  expect(() => createImport('scan.pdf', 'pdf', ' \n ')).toThrow('"scan.pdf" has no readable text.');
+
+  const long = createImport('rfp.txt', 'text', 'a'.repeat(MAX_IMPORT_CHARS + 10));
+  expect(long.truncated).toBe(true);
+  expect(long.text).toHaveLength(MAX_IMPORT_CHARS);
+  expect(importContext(long)).toContain('cut off');
+});
+
+test('readImportFile reads markdown and refuses unknown files', async () => {
+  const doc = await readImportFile(new File(['# Old Brief\r\n\r\nKeep it simple.'], 'old-brief.md'));
+  expect(doc).toMatchObject({ name: 'old-brief.md', kind: 'markdown', text: '# Old Brief\n\nKeep it simple.' });
+  await expect(readImportFile(new File(['x'], 'logo.png', { type: 'image/png' }))).rejects.toThrow('not a markdown, text or PDF file');
+});
+
+test('briefFromImport keeps markdown briefs and titles everything else', () => {
+  expect(briefFromImport(createImport('brief.md', 'markdown', '# Plant Pal\n\n## Goals\nGrow.'))).toBe('# Plant Pal\n\n## Goals\nGrow.');
+  expect(briefFromImport(createImport('client_rfp-2024.txt', 'text', 'We need an app.')))
+    .toBe('# client rfp 2024\n\n## Source Material\n\nWe need an app.');
+  expect(briefFromImport(createImport('Pasted text', 'paste', '# Night Market\nStalls.'))).toBe('# Night Market\nStalls.');
+  expect(briefFromImport(createImport('Pasted text', 'paste', 'Just notes'))).toMatch(/^# Untitled Vision\n/);
+});
+
+test('importContext wraps the document for the live model', () => {
+  const context = importContext(createImport('rfp.txt', 'text', 'Budget is fixed.'));
+  expect(context).toContain('"rfp.txt"');
+  expect(context).toContain('do not ask the client to repeat it');
+  expect(context).toContain('--- DOCUMENT START ---\nBudget is fixed.\n--- DOCUMENT END ---');
+  expect(context).not.toContain('cut off');
+});
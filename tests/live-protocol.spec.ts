@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Emitter, LiveEvents, ProtocolError, parseServerMessage, serverEvents, textTurn, toolResponse } from '../live-protocol';
+
+// Server frames captured from live sessions (audio shortened)
+const fixtures: Record<string, unknown> = JSON.parse(
+  fs.readFileSync(path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'live-messages.json'), 'utf8')
+);
+
+const events = (name: string) => serverEvents(parseServerMessage(JSON.stringify(fixtures[name])));
+
+test('every part of a model turn becomes an event', () => {
+  expect(events('modelTurnMixed')).toEqual([
+    { type: 'text', data: { text: '**Planning the next question**', thought: true } },
+    { type: 'audio', data: { mimeType: 'audio/pcm;rate=24000', data: 'AAABAAIA' } },
+    { type: 'audio', data: { mimeType: 'audio/pcm;rate=24000', data: 'AwAEAAUA' } },
+    { type: 'text', data: { text: 'Who waters the plants today?', thought: false } },
+  ]);
+});
+
+test('interruption comes before the audio that follows it', () => {
+  expect(events('interruptedThenAudio').map(e => e.type)).toEqual(['interrupted', 'audio']);
+});
+
+test('transcriptions, turn end and usage are surfaced', () => {
+  expect(events('setupComplete')).toEqual([{ type: 'setupComplete', data: undefined }]);
+  expect(events('transcriptions')).toEqual([
+    { type: 'inputTranscription', data: 'Mostly my partner.' },
+    { type: 'outputTranscription', data: 'Got it.' },
+  ]);
+  expect(events('turnEnd')).toEqual([
+    { type: 'generationComplete', data: undefined },
+    { type: 'turnComplete', data: undefined },
+    { type: 'usage', data: { promptTokenCount: 1850, responseTokenCount: 212, totalTokenCount: 2062 } },
+  ]);
+  expect(events('goAway')).toEqual([{ type: 'goAway', data: { timeLeft: '10s' } }]);
+});
+
+test('tool calls are validated', () => {
+  expect(events('toolCall')).toEqual([{
+    type: 'toolCall',
+    data: [
+      { id: 'function-call-1', name: 'upsertSection', args: { heading: 'Users', content: 'Busy plant owners.' } },
+      { id: 'function-call-2', name: 'askFollowUpQuestions', args: {} },
+    ],
+  }]);
+  expect(events('toolCallCancellation')).toEqual([{ type: 'toolCallCancellation', data: ['function-call-2'] }]);
+});
+
+test('malformed fields are dropped and bad frames rejected', () => {
+  expect(parseServerMessage(JSON.stringify(fixtures.malformed))).toEqual({ serverContent: {} });
+  expect(events('malformed')).toEqual([]);
+  expect(() => parseServerMessage('{"serverContent":')).toThrow(ProtocolError);
+  expect(() => parseServerMessage('[]')).toThrow('not an object');
+});
+
+test('client messages have the wire shape', () => {
+  expect(textTurn('Hello', false)).toEqual({
+    clientContent: { turns: [{ role: 'user', parts: [{ text: 'Hello' }] }], turnComplete: false },
+  });
+  expect(toolResponse('call-1', 'updateSpec', { success: true })).toEqual({
+    toolResponse: { functionResponses: [{ id: 'call-1', name: 'updateSpec', response: { result: { success: true } } }] },
+  });
+});
+
+test('emitter delivers to listeners until they unsubscribe', () => {
+  const emitter = new Emitter<LiveEvents>();
+  const heard: string[] = [];
+  const off = emitter.on('inputTranscription', text => heard.push(text));
+  emitter.on('inputTranscription', () => { throw new Error('broken listener'); });
+  emitter.on('inputTranscription', text => heard.push(text.toUpperCase()));
+
+  emitter.emit('inputTranscription', 'hi');
+  off();
+  emitter.emit('inputTranscription', 'again');
+  expect(heard).toEqual(['hi', 'HI', 'AGAIN']);
+});
@@ -0,0 +1,217 @@
+import { test, expect, Page } from '@playwright/test';
+import { startMockLiveServer, loadScenario, MockLiveServer } from './mock-live-server';
+
+let server: MockLiveServer | null = null;
+
+test.afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+const startSession = async (page: Page, scenario: string) => {
+  server = await startMockLiveServer(loadScenario(scenario));
+  await page.goto(`/?liveEndpoint=${encodeURIComponent(server.url)}`);
+  await page.locator('.trigger-zone').click();
+};
+
+test('interview drives the brief, question cards and transcript', async ({ page }) => {
+  await startSession(page, 'interview');
+
+  // askFollowUpQuestions turns into cards
+  const cards = page.locator('.bento-card');
+  await expect(cards).toHaveCount(2);
+  await expect(cards.first()).toContainText('Who is the first user?');
+
+  // Setup asked for transcription and every tool call was answered
+  const messages = server!.received[0];
+  const setup = messages.find(m => m.setup)?.setup;
+  expect(setup.inputAudioTranscription).toBeDefined();
+  expect(setup.outputAudioTranscription).toBeDefined();
+  const responses = messages.filter(m => m.toolResponse).map(m => m.toolResponse.functionResponses[0]);
+  expect(responses.map(r => r.id)).toEqual(['call-1', 'call-2']);
+
+  // updateSpec replaced the brief; transcription landed in the transcript panel
+  await page.getByRole('button', { name: 'Brief' }).click();
+  await expect(page.locator('.markdown-body h1')).toHaveText('Plant Pal');
+  await expect(page.locator('.transcript-panel')).toContainText('keeps house plants alive');
+  await expect(page.locator('.transcript-panel')).toContainText('Let me capture that');
+});
+
+test('quota close surfaces an error and ends the session', async ({ page }) => {
+  await startSession(page, 'quota');
+
+  await expect(page.locator('.error-toast')).toHaveText('Quota exceeded. Please check billing.');
+  await expect(page.locator('.status-indicator')).toContainText('IDLE');
+  expect(server!.connectionCount()).toBe(1);
+});
+
+test('dropped connection reconnects with the brief as context', async ({ page }) => {
+  await startSession(page, 'reconnect');
+
+  await expect.poll(() => server!.connectionCount(), { timeout: 10000 }).toBe(2);
+  await expect(page.locator('.status-indicator')).toContainText('LISTENING');
+
+  const resumedSetup = server!.received[1].find(m => m.setup)?.setup;
+  const instruction = resumedSetup.systemInstruction.parts[0].text;
+  expect(instruction).toContain('resumed');
+  expect(instruction).toContain('Night Market');
+});
+
+test('text typed while reconnecting is sent once the new session is set up', async ({ page }) => {
+  await startSession(page, 'reconnect-queue');
+  await expect(page.locator('.hero-text')).toHaveText('Reconnecting...');
+
+  await page.locator('input.text-input').fill('We need offline support');
+  await page.keyboard.press('Enter');
+
+  const turns = (i: number) => (server!.received[i] ?? []).filter(m => m.clientContent).map(m => m.clientContent.turns[0].parts[0].text);
+  await expect.poll(() => turns(1), { timeout: 10000 }).toContain('We need offline support');
+  expect(turns(0)).not.toContain('We need offline support');
+  // The setup goes first; the queued turn waits for setupComplete
+  expect(Object.keys(server!.received[1][0])).toEqual(['setup']);
+});
+
+test('interruption flushes model audio and returns to listening', async ({ page }) => {
+  await startSession(page, 'barge-in');
+
+  // Eight seconds of audio are queued; SPEAKING follows real playback
+  await expect(page.locator('.status-indicator')).toContainText('SPEAKING');
+
+  // interrupted drops the queue straight away instead of playing it out
+  await expect(page.locator('.status-indicator')).toContainText('LISTENING', { timeout: 3000 });
+});
+
+test('push-to-talk only streams audio while space is held', async ({ page }) => {
+  server = await startMockLiveServer(loadScenario('listen'));
+  await page.goto(`/?liveEndpoint=${encodeURIComponent(server.url)}`);
+  await page.getByRole('button', { name: 'Push to talk' }).click();
+  await page.locator('.trigger-zone').click();
+  await expect(page.locator('.hero-text')).toHaveText('Hold to talk');
+
+  const audio = () => server!.received[0]?.filter(m => m.realtimeInput?.mediaChunks).length ?? 0;
+  const streamEnds = () => server!.received[0]?.filter(m => m.realtimeInput?.audioStreamEnd).length ?? 0;
+
+  // The fake microphone plays a tone, but nothing goes out until the key is down
+  await page.waitForTimeout(1000);
+  expect(audio()).toBe(0);
+
+  await page.keyboard.down('Space');
+  await expect.poll(audio).toBeGreaterThan(0);
+  await page.keyboard.up('Space');
+  await expect.poll(streamEnds).toBe(1);
+});
+
+test('muting keeps the session open but sends no audio', async ({ page }) => {
+  server = await startMockLiveServer(loadScenario('listen'));
+  await page.goto(`/?liveEndpoint=${encodeURIComponent(server.url)}`);
+  await page.getByRole('button', { name: 'Push to talk' }).click();
+  await page.locator('.trigger-zone').click();
+  await page.getByRole('button', { name: 'Mute' }).click();
+  await expect(page.locator('.hero-text')).toHaveText('Muted');
+
+  await page.keyboard.down('Space');
+  await page.waitForTimeout(1000);
+  await page.keyboard.up('Space');
+  expect(server!.received[0].filter(m => m.realtimeInput?.mediaChunks)).toHaveLength(0);
+  await expect(page.locator('.status-indicator')).toContainText('LISTENING');
+  expect(server!.connectionCount()).toBe(1);
+});
+
+test('imported documents are shared with the model as context', async ({ page }) => {
+  server = await startMockLiveServer(loadScenario('listen'));
+  await page.goto(`/?liveEndpoint=${encodeURIComponent(server.url)}`);
+
+  await page.getByRole('button', { name: 'Import document' }).click();
+  const dialog = page.getByRole('dialog', { name: 'Import document' });
+  await dialog.locator('input[type=file]').setInputFiles({
+    name: 'rfp.txt', mimeType: 'text/plain', buffer: Buffer.from('Budget is fixed at 40k.')
+  });
+  await expect(dialog).toContainText('rfp.txt');
+  await dialog.getByRole('button', { name: 'IMPORT', exact: true }).click();
+
+  await page.locator('.trigger-zone').click();
+
+  // Sent after setup as context, without asking for a reply
+  const context = () => server!.received[0]?.find(m => m.clientContent)?.clientContent;
+  await expect.poll(() => context()?.turns[0].parts[0].text ?? '').toContain('Budget is fixed at 40k.');
+  expect(context().turnComplete).toBe(false);
+  expect(server!.received[0][0].setup).toBeDefined();
+});
+
+test('unknown tools and invalid arguments are answered with errors', async ({ page }) => {
+  await startSession(page, 'tool-errors');
+
+  const responses = () => server!.received[0]?.filter(m => m.toolResponse).map(m => m.toolResponse.functionResponses[0]) ?? [];
+  await expect.poll(() => responses().length).toBe(2);
+  expect(responses().map(r => [r.id, r.response.result.success])).toEqual([['call-1', false], ['call-2', false]]);
+  expect(responses()[0].response.result.error).toContain('Unknown tool "drawWireframe"');
+  expect(responses()[1].response.result.error).toBe('Invalid arguments: args.content is required.');
+
+  // The offered tools came from the registry
+  const setup = server!.received[0].find(m => m.setup).setup;
+  expect(setup.tools[0].functionDeclarations.map((d: any) => d.name)).toContain('upsertSection');
+});
+
+test('camera frames go out as JPEG until sharing stops', async ({ page }) => {
+  await startSession(page, 'listen');
+  await page.getByRole('button', { name: 'Camera', exact: true }).click();
+  await expect(page.locator('.video-tile')).toBeVisible();
+  await expect(page.locator('.video-indicator')).toContainText('SHARING CAMERA');
+
+  const messages = () => server!.received[0] ?? [];
+  const frames = () => messages().filter(m => m.realtimeInput?.mediaChunks?.[0].mimeType === 'image/jpeg').length;
+  const context = () => messages().filter(m => m.clientContent).map(m => m.clientContent.turns[0].parts[0].text as string);
+  await expect.poll(frames).toBeGreaterThan(0);
+  expect(context().some(t => t.startsWith('[Video shared]'))).toBe(true);
+
+  await page.locator('.video-tile').getByRole('button', { name: 'STOP' }).click();
+  await expect(page.locator('.video-tile')).toHaveCount(0);
+  await expect(page.locator('.video-indicator')).toHaveCount(0);
+  expect(context().some(t => t.startsWith('[Video stopped]'))).toBe(true);
+
+  const sent = frames();
+  await page.waitForTimeout(2000);
+  expect(frames()).toBe(sent);
+});
+
+test('workshop turns are attributed to the selected speaker', async ({ page }) => {
+  server = await startMockLiveServer(loadScenario('listen'));
+  await page.goto(`/?liveEndpoint=${encodeURIComponent(server.url)}`);
+
+  await page.getByRole('button', { name: 'Workshop participants' }).click();
+  const dialog = page.getByRole('dialog', { name: 'Workshop participants' });
+  for (const [name, role] of [['Dana', 'CTO'], ['Sam', 'Head of Sales']]) {
+    await dialog.getByLabel('New participant name').fill(name);
+    await dialog.getByLabel('New participant role').fill(role);
+    await dialog.getByRole('button', { name: 'ADD' }).click();
+  }
+  await dialog.getByRole('button', { name: 'SAVE' }).click();
+
+  const speakers = page.getByRole('radiogroup', { name: 'Speaker' });
+  await expect(speakers.getByRole('radio', { name: 'Dana' })).toHaveAttribute('aria-checked', 'true');
+
+  await page.getByRole('button', { name: 'Push to talk' }).click();
+  await page.locator('.trigger-zone').click();
+  const context = () => (server!.received[0] ?? []).filter(m => m.clientContent).map(m => m.clientContent.turns[0].parts[0].text as string);
+  await expect.poll(() => context().some(t => t.startsWith('[Workshop]') && t.includes('Sam (Head of Sales)'))).toBe(true);
+
+  await speakers.getByRole('radio', { name: 'Sam' }).click();
+  await expect.poll(() => context()).toContain('[Speaker] Sam (Head of Sales) is speaking now. Attribute what follows to them until told otherwise.');
+
+  // A spoken turn is labelled as it ends, just before audioStreamEnd
+  await page.keyboard.down('Space');
+  await page.waitForTimeout(300);
+  await page.keyboard.up('Space');
+  const spoken = '[Speaker] The client turn that just ended was spoken by Sam (Head of Sales).';
+  await expect.poll(() => context()).toContain(spoken);
+  const messages = server!.received[0];
+  const labelled = messages.findIndex(m => m.clientContent?.turns[0].parts[0].text === spoken);
+  expect(messages[labelled + 1].realtimeInput?.audioStreamEnd).toBe(true);
+
+  await page.locator('input.text-input').fill('We sell to florists first');
+  await page.keyboard.press('Enter');
+  await expect.poll(() => context()).toContain('[Sam] We sell to florists first');
+
+  await page.getByRole('button', { name: 'Brief' }).click();
+  await expect(page.locator('.transcript-line.user .transcript-meta').first()).toContainText('Sam');
+});
@@ -0,0 +1,147 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket } from 'ws';
+
+/**
+ * Scripted stand-in for the Gemini Live BidiGenerateContent WebSocket.
+ * - Replays a scenario file step by step for every connection.
+ * - Records what the client sent so tests can assert on it.
+ *
+ * Scenario steps:
+ *   { "expect": "setup" }                     wait for a client message with that top-level key
+ *   { "send": { ...server message } }         send a JSON message
+ *   { "audio": { "ms": 200 } }                send PCM 24 kHz model audio (a quiet tone)
+ *   { "delay": 100 }                          wait before the next step
+ *   { "close": { "code": 1011, "reason": "" } } close the socket
+ *
+ * A scenario lists one script per connection; the last one is reused for
+ * further connections, which lets reconnect behaviour be scripted.
+ */
+
+export type ScenarioStep =
+  | { expect: string; timeout?: number }
+  | { send: Record<string, unknown> }
+  | { audio: { ms: number; chunkMs?: number } }
+  | { delay: number }
+  | { close: { code: number; reason?: string } };
+
+export interface Scenario {
+  name: string;
+  connections: ScenarioStep[][];
+}
+
+export interface MockLiveServer {
+  url: string;
+  /** Client messages, per connection, in arrival order. */
+  received: Record<string, any>[][];
+  connectionCount: () => number;
+  close: () => Promise<void>;
+}
+
+const SAMPLE_RATE = 24000;
+const DEFAULT_EXPECT_TIMEOUT = 10000;
+const SCENARIO_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'scenarios');
+
+export function loadScenario(name: string): Scenario {
+  const file = path.join(SCENARIO_DIR, `${name}.json`);
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function toneChunk(ms: number, offset: number) {
+  const samples = Math.round((SAMPLE_RATE * ms) / 1000);
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const v = Math.sin((2 * Math.PI * 220 * (offset + i)) / SAMPLE_RATE) * 0.1;
+    pcm.writeInt16LE(Math.round(v * 0x7fff), i * 2);
+  }
+  return { base64: pcm.toString('base64'), samples };
+}
+
+async function runScript(ws: WebSocket, steps: ScenarioStep[], inbox: Record<string, any>[], waiters: Set<() => void>) {
+  let consumed = 0;
+
+  const waitFor = (key: string, timeout: number) => new Promise<void>((resolve, reject) => {
+    const check = () => {
+      const idx = inbox.findIndex((m, i) => i >= consumed && key in m);
+      if (idx >= 0) {
+        consumed = idx + 1;
+        waiters.delete(check);
+        clearTimeout(timer);
+        resolve();
+      }
+    };
+    const timer = setTimeout(() => {
+      waiters.delete(check);
+      reject(new Error(`Mock Live server: timed out waiting for "${key}"`));
+    }, timeout);
+    waiters.add(check);
+    check();
+  });
+
+  for (const step of steps) {
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    if ('expect' in step) {
+      await waitFor(step.expect, step.timeout ?? DEFAULT_EXPECT_TIMEOUT);
+    } else if ('send' in step) {
+      ws.send(JSON.stringify(step.send));
+    } else if ('audio' in step) {
+      const chunkMs = step.audio.chunkMs ?? 40;
+      let offset = 0;
+      for (let sent = 0; sent < step.audio.ms; sent += chunkMs) {
+        const { base64, samples } = toneChunk(Math.min(chunkMs, step.audio.ms - sent), offset);
+        offset += samples;
+        ws.send(JSON.stringify({
+          serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${SAMPLE_RATE}`, data: base64 } }] } }
+        }));
+      }
+    } else if ('delay' in step) {
+      await new Promise(r => setTimeout(r, step.delay));
+    } else if ('close' in step) {
+      ws.close(step.close.code, step.close.reason ?? '');
+      return;
+    }
+  }
+}
+
+export async function startMockLiveServer(scenario: Scenario, port = 0): Promise<MockLiveServer> {
+  const wss = new WebSocketServer({ port, host: '127.0.0.1' });
+  await new Promise<void>(resolve => wss.once('listening', () => resolve()));
+  const received: Record<string, any>[][] = [];
+
+  wss.on('connection', (ws) => {
+    const inbox: Record<string, any>[] = [];
+    const waiters = new Set<() => void>();
+    const index = received.length;
+    received.push(inbox);
+
+    ws.on('message', (data) => {
+      try {
+        inbox.push(JSON.parse(data.toString()));
+      } catch {
+        inbox.push({ unparseable: data.toString() });
+      }
+      waiters.forEach(w => w());
+    });
+
+    const script = scenario.connections[Math.min(index, scenario.connections.length - 1)];
+    runScript(ws, script, inbox, waiters).catch((e) => {
+      console.error(e.message);
+      ws.close(1011, e.message);
+    });
+  });
+
+  const { port: boundPort } = wss.address() as AddressInfo;
+  return {
+    url: `ws://127.0.0.1:${boundPort}`,
+    received,
+    connectionCount: () => received.length,
+    close: () => new Promise<void>((resolve) => {
+      wss.clients.forEach(c => c.terminate());
+      wss.close(() => resolve());
+    })
+  };
+}
+
@@ -0,0 +1,49 @@
+import { test, expect } from '@playwright/test';
+import { MoodboardImage, captionFromName, imageContext, imageData, imagesByUrl, moodboardMarkdown, nextImageId, syncMoodboard } from '../moodboard';
+
+const image = (id: string, extra: Partial<MoodboardImage> = {}): MoodboardImage => ({
+  id, name: `${id}.png`, dataUrl: 'data:image/jpeg;base64,AAAA', width: 4, height: 3, caption: `Shot ${id}`, addedAt: 0, ...extra,
+});
+
+test('image ids stay short and never reuse a removed number', () => {
+  expect(nextImageId([])).toEqual({ id: 'ref-1', counter: 1 });
+  expect(nextImageId([image('ref-1'), image('ref-4')]).id).toBe('ref-5');
+  // ref-3 was removed after ref-2, yet the counter remembers it
+  expect(nextImageId([image('ref-1'), image('ref-2')], 3)).toEqual({ id: 'ref-4', counter: 4 });
+  // Sessions saved without a counter fall back to the ids in use
+  expect(nextImageId([image('ref-6')], 0).id).toBe('ref-7');
+});
+
+test('captions come from the file name', () => {
+  expect(captionFromName('competitor_home-page.png')).toBe('competitor home page');
+  expect(captionFromName('.png')).toBe('Reference image');
+});
+
+test('moodboard markdown links images and records verdicts', () => {
+  const markdown = moodboardMarkdown([
+    image('ref-1', { caption: 'Calm [greens]', tag: 'like', reason: 'Soft palette' }),
+    image('ref-2', { tag: 'avoid' }),
+    image('ref-3'),
+  ]);
+  expect(markdown).toBe([
+    '![Calm greens](moodboard:ref-1)', '', '**Like:** Soft palette', '',
+    '![Shot ref-2](moodboard:ref-2)', '', '**Avoid:** No reason given.', '',
+    '![Shot ref-3](moodboard:ref-3)',
+  ].join('\n'));
+});
+
+test('syncMoodboard writes the section and removes it with the last image', () => {
+  const spec = '# Plant Pal\n\n## Goals\n\nGrow';
+  const synced = syncMoodboard(spec, [image('ref-1')]);
+  expect(synced).toContain('## Moodboard\n\n![Shot ref-1](moodboard:ref-1)');
+  expect(synced).toContain('## Goals\n\nGrow');
+  expect(syncMoodboard(synced, [])).not.toContain('Moodboard');
+  expect(syncMoodboard(spec, [])).toBe(spec);
+});
+
+test('images are shared with their id and resolved by link', () => {
+  const img = image('ref-2');
+  expect(imageData(img)).toBe('AAAA');
+  expect(imageContext(img)).toContain('tagImage with id "ref-2"');
+  expect(imagesByUrl([img])['moodboard:ref-2']).toBe(img);
+});
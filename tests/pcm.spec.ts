@@ -0,0 +1,77 @@
+import { test, expect } from '@playwright/test';
+import {
+  PcmChunker, Resampler, arrayBufferToBase64, base64ToArrayBuffer, float32ToInt16, int16ToFloat32
+} from '../pcm';
+
+// Pure functions; no page needed
+
+test('float32ToInt16 scales and clamps to the 16-bit range', () => {
+  const int16 = float32ToInt16(Float32Array.from([0, 1, -1, 0.5, -0.5, 2, -2]));
+  expect(Array.from(int16)).toEqual([0, 32767, -32768, 16383, -16384, 32767, -32768]);
+});
+
+test('int16ToFloat32 maps back into [-1, 1)', () => {
+  const float32 = int16ToFloat32(Int16Array.from([0, -32768, 16384, 32767]));
+  expect(Array.from(float32)).toEqual([0, -1, 0.5, 32767 / 32768]);
+});
+
+test('float and int16 conversion round-trips within one step', () => {
+  const input = Float32Array.from({ length: 100 }, (_, i) => Math.sin(i / 7) * 0.9);
+  const output = int16ToFloat32(float32ToInt16(input));
+  input.forEach((v, i) => expect(Math.abs(v - output[i])).toBeLessThan(1 / 32768 * 2));
+});
+
+test('base64 codecs round-trip PCM bytes', () => {
+  const int16 = Int16Array.from([0, 1, -1, 12345, -32768, 32767]);
+  const b64 = arrayBufferToBase64(int16.buffer);
+  expect(b64).toBe(Buffer.from(int16.buffer).toString('base64'));
+  expect(Array.from(new Int16Array(base64ToArrayBuffer(b64)))).toEqual(Array.from(int16));
+  expect(arrayBufferToBase64(new ArrayBuffer(0))).toBe('');
+});
+
+test('resampler converts 48 kHz to 16 kHz with the right length', () => {
+  const r = new Resampler(48000, 16000);
+  const out = r.process(new Float32Array(4800).fill(0.25));
+  expect(out.length).toBe(1600);
+  expect(out.every(v => Math.abs(v - 0.25) < 1e-6)).toBe(true);
+});
+
+test('resampler gives the same output for split and whole input', () => {
+  const input = Float32Array.from({ length: 44100 / 10 }, (_, i) => Math.sin((2 * Math.PI * 440 * i) / 44100));
+  const whole = new Resampler(44100, 16000).process(input);
+
+  const split = new Resampler(44100, 16000);
+  const parts: number[] = [];
+  for (let i = 0; i < input.length; i += 128) {
+    parts.push(...split.process(input.subarray(i, i + 128)));
+  }
+  expect(parts.length).toBe(whole.length);
+  parts.forEach((v, i) => expect(v).toBeCloseTo(whole[i], 6));
+});
+
+test('resampler keeps a tone at its frequency', () => {
+  const rate = 48000;
+  const input = Float32Array.from({ length: rate }, (_, i) => Math.sin((2 * Math.PI * 300 * i) / rate));
+  const out = new Resampler(rate, 16000).process(input);
+  let crossings = 0;
+  for (let i = 1; i < out.length; i++) if (out[i - 1] < 0 && out[i] >= 0) crossings++;
+  expect(Math.abs(crossings - 300)).toBeLessThanOrEqual(1);
+});
+
+test('resampler upsamples by interpolation', () => {
+  const out = new Resampler(8000, 16000).process(Float32Array.from([0, 1, 0]));
+  expect(Array.from(out)).toEqual([0, 0.5, 1, 0.5]);
+});
+
+test('chunker emits fixed-size chunks and flushes the remainder', () => {
+  const chunks: number[][] = [];
+  const chunker = new PcmChunker(4, c => chunks.push(Array.from(c)));
+  chunker.push(Float32Array.from([1, 2, 3]));
+  expect(chunks).toEqual([]);
+  chunker.push(Float32Array.from([4, 5, 6, 7, 8, 9, 10]));
+  expect(chunks).toEqual([[1, 2, 3, 4], [5, 6, 7, 8]]);
+  chunker.flush();
+  expect(chunks).toEqual([[1, 2, 3, 4], [5, 6, 7, 8], [9, 10]]);
+  chunker.flush();
+  expect(chunks.length).toBe(3);
+});
@@ -0,0 +1,140 @@
+import { test, expect } from '@playwright/test';
+import { ChildProcess, spawn } from 'child_process';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { WebSocket } from 'ws';
+
+// The proxy runs as its own process with tight limits; X-Forwarded-For stands in for the client IP
+const ORIGIN = 'http://localhost:3000';
+const TOKEN_TTL_MS = 1500;
+
+let proxy: ChildProcess | null = null;
+let base = '';
+
+const freePort = () => new Promise<number>((resolve) => {
+  const probe = net.createServer();
+  probe.listen(0, () => {
+    const { port } = probe.address() as net.AddressInfo;
+    probe.close(() => resolve(port));
+  });
+});
+
+test.beforeAll(async () => {
+  const port = await freePort();
+  base = `http://127.0.0.1:${port}`;
+  proxy = spawn(process.execPath, ['--import', 'tsx', 'server.ts'], {
+    cwd: path.join(path.dirname(fileURLToPath(import.meta.url)), '..'),
+    env: {
+      ...process.env,
+      GEMINI_API_KEY: 'test-key',
+      PROXY_PORT: String(port),
+      PROXY_ALLOWED_ORIGIN: ORIGIN,
+      PROXY_TOKEN_TTL_MS: String(TOKEN_TTL_MS),
+      PROXY_MAX_TOKENS_PER_MINUTE: '3',
+      PROXY_MAX_GENERATE_PER_MINUTE: '2',
+      PROXY_TRUST_FORWARDED: '1',
+      PROXY_USAGE_LOG: path.join(os.tmpdir(), `proxy-usage-${port}.log`),
+    },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  await new Promise<void>((resolve, reject) => {
+    proxy!.stdout!.on('data', (data) => { if (data.toString().includes('listening')) resolve(); });
+    proxy!.once('exit', (code) => reject(new Error(`Proxy exited with code ${code}`)));
+  });
+});
+
+test.afterAll(() => {
+  proxy?.kill();
+  proxy = null;
+});
+
+const requestSession = (ip: string, origin: string | null = ORIGIN) => fetch(`${base}/api/session`, {
+  method: 'POST',
+  headers: { 'X-Forwarded-For': ip, ...(origin ? { Origin: origin } : {}) },
+});
+
+const issue = async (ip: string) => {
+  const res = await requestSession(ip);
+  expect(res.status).toBe(200);
+  return (await res.json()).token as string;
+};
+
+/** Status of a generation request; an empty body gets 400 once the token is accepted. */
+const generate = async (ip: string, token: string) => (await fetch(`${base}/api/generate`, {
+  method: 'POST',
+  headers: { 'X-Forwarded-For': ip, 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+  body: '{}',
+})).status;
+
+/** Status of a /live upgrade: 101 when the relay accepted the socket. */
+const openLive = (ip: string, token: string, origin = ORIGIN) => new Promise<number>((resolve) => {
+  const ws = new WebSocket(`${base.replace(/^http/, 'ws')}/live?token=${encodeURIComponent(token)}`, {
+    headers: { 'X-Forwarded-For': ip },
+    origin,
+  });
+  ws.on('upgrade', () => {
+    resolve(101);
+    ws.terminate();
+  });
+  ws.on('unexpected-response', (req, res) => {
+    resolve(res.statusCode ?? 0);
+    req.destroy();
+  });
+  ws.on('error', () => {});
+});
+
+test('only the app origin gets tokens and opens the relay', async () => {
+  expect((await requestSession('10.0.1.1', null)).status).toBe(403);
+  expect((await requestSession('10.0.1.1', 'https://evil.example')).status).toBe(403);
+  const token = await issue('10.0.1.1');
+  expect(await openLive('10.0.1.1', token, 'https://evil.example')).toBe(403);
+  expect(await openLive('10.0.1.1', token)).toBe(101);
+});
+
+test('tokens are bound to the IP they were issued to and to their signature', async () => {
+  const token = await issue('10.0.2.1');
+  expect(await openLive('10.0.2.2', token)).toBe(401);
+  expect(await generate('10.0.2.2', token)).toBe(401);
+
+  const [payload, signature] = token.split('.');
+  const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  const forged = `${Buffer.from(JSON.stringify({ ...claims, ip: '10.0.2.2' })).toString('base64url')}.${signature}`;
+  expect(await openLive('10.0.2.2', forged)).toBe(401);
+
+  expect(await openLive('10.0.2.1', token)).toBe(101);
+});
+
+test('a token opens one socket', async () => {
+  const token = await issue('10.0.3.1');
+  expect(await openLive('10.0.3.1', token)).toBe(101);
+  expect(await openLive('10.0.3.1', token)).toBe(401);
+});
+
+test('a token is good for one generation request', async () => {
+  const token = await issue('10.0.4.1');
+  expect(await generate('10.0.4.1', token)).toBe(400);
+  expect(await generate('10.0.4.1', token)).toBe(401);
+  expect(await openLive('10.0.4.1', token)).toBe(401);
+});
+
+test('expired tokens are refused', async () => {
+  const token = await issue('10.0.5.1');
+  await new Promise(r => setTimeout(r, TOKEN_TTL_MS + 200));
+  expect(await openLive('10.0.5.1', token)).toBe(401);
+  expect(await generate('10.0.5.1', token)).toBe(401);
+});
+
+test('token issuance is limited per IP', async () => {
+  for (let i = 0; i < 3; i++) await issue('10.0.6.1');
+  expect((await requestSession('10.0.6.1')).status).toBe(429);
+  expect((await requestSession('10.0.6.2')).status).toBe(200);
+});
+
+test('generation is limited per IP', async () => {
+  const tokens = [await issue('10.0.7.1'), await issue('10.0.7.1'), await issue('10.0.7.1')];
+  expect(await generate('10.0.7.1', tokens[0])).toBe(400);
+  expect(await generate('10.0.7.1', tokens[1])).toBe(400);
+  expect(await generate('10.0.7.1', tokens[2])).toBe(429);
+});
@@ -0,0 +1,75 @@
+import { test, expect } from '@playwright/test';
+import { RECORDING_SAMPLE_RATE, SessionRecorder, encodeWav } from '../session-recording';
+
+const tone = (length: number, value = 0.5) => new Float32Array(length).fill(value);
+
+const header = (wav: ArrayBuffer) => {
+  const view = new DataView(wav);
+  const text = (offset: number) => String.fromCharCode(...new Uint8Array(wav, offset, 4));
+  return {
+    riff: text(0),
+    wave: text(8),
+    channels: view.getUint16(22, true),
+    rate: view.getUint32(24, true),
+    bits: view.getUint16(34, true),
+    dataSize: view.getUint32(40, true),
+  };
+};
+
+test('encodeWav writes a 16-bit PCM header and interleaves channels', () => {
+  const wav = encodeWav([Float32Array.from([1, 0]), Float32Array.from([-1, 0.5])], 24000);
+  expect(header(wav)).toEqual({ riff: 'RIFF', wave: 'WAVE', channels: 2, rate: 24000, bits: 16, dataSize: 8 });
+  const samples = new Int16Array(wav, 44);
+  expect(Array.from(samples)).toEqual([32767, -32768, 0, 16383]);
+});
+
+test('model audio is placed at its scheduled playback time', () => {
+  const rec = new SessionRecorder();
+  rec.addOutput(tone(2400), RECORDING_SAMPLE_RATE, 1);
+  const model = rec.renderTrack('model');
+  const start = model.findIndex(v => v !== 0);
+  expect(start).toBeGreaterThanOrEqual(RECORDING_SAMPLE_RATE);
+  expect(start).toBeLessThan(RECORDING_SAMPLE_RATE * 1.2);
+});
+
+test('mic audio at 16 kHz renders at the recording rate', () => {
+  const rec = new SessionRecorder();
+  rec.addInput(tone(1600), 16000);
+  const mic = rec.renderTrack('mic');
+  const voiced = mic.filter(v => v !== 0).length;
+  expect(Math.abs(voiced - 2400)).toBeLessThanOrEqual(2);
+});
+
+test('mic chunks that arrive at once are laid out one after another', () => {
+  const rec = new SessionRecorder();
+  // The VAD gate sends its pre-roll as a burst when it opens
+  for (let i = 0; i < 7; i++) rec.addInput(tone(960, 0.25), RECORDING_SAMPLE_RATE);
+  const mic = rec.renderTrack('mic');
+  const voiced = mic.filter(v => v !== 0);
+  expect(voiced.length).toBe(7 * 960);
+  expect(Math.max(...voiced)).toBeCloseTo(0.25, 3);
+  expect(rec.duration).toBeCloseTo(0.28, 3);
+});
+
+test('flushed model audio is cut from the recording', () => {
+  const rec = new SessionRecorder();
+  rec.addOutput(tone(2400), RECORDING_SAMPLE_RATE, 0);
+  rec.addOutput(tone(24000), RECORDING_SAMPLE_RATE, 5);
+  rec.cutOutput();
+  expect(rec.duration).toBeLessThan(1);
+});
+
+test('render mixes both sides or keeps them as two tracks', () => {
+  const rec = new SessionRecorder();
+  rec.addOutput(tone(2400, 0.25), RECORDING_SAMPLE_RATE, 0);
+  expect(header(rec.render('mixed')).channels).toBe(1);
+  expect(header(rec.render('tracks')).channels).toBe(2);
+});
+
+test('paused time is left out of the time line', async () => {
+  const rec = new SessionRecorder();
+  rec.pause();
+  await new Promise(r => setTimeout(r, 300));
+  rec.resume();
+  expect(rec.offsetOf(Date.now())).toBeLessThan(0.1);
+});
@@ -0,0 +1,64 @@
+import { test, expect } from '@playwright/test';
+import { appendToSection, findSection, parseSections, removeSection, sectionBody, upsertSection } from '../spec-sections';
+
+const brief = [
+  '# Plant Pal',
+  '',
+  'Keeps house plants alive.',
+  '',
+  '## Goals',
+  '',
+  'A',
+  '',
+  '### Metrics',
+  '',
+  'M',
+  '',
+  '## Users',
+  '',
+  'U',
+  '',
+].join('\n');
+
+test('sections span their subsections; the body stops at the first one', () => {
+  const goals = parseSections(brief).find(s => s.heading === 'Goals')!;
+  expect(goals).toEqual({ heading: 'Goals', level: 2, start: 4, end: 12, bodyEnd: 8 });
+  expect(sectionBody(brief, '## goals')).toBe('A\n\n### Metrics\n\nM');
+});
+
+test('replacing a section keeps its subsections', () => {
+  const md = upsertSection(brief, 'Goals', 'B');
+  expect(md).toBe('# Plant Pal\n\nKeeps house plants alive.\n\n## Goals\n\nB\n\n### Metrics\n\nM\n\n## Users\n\nU\n');
+  expect(sectionBody(upsertSection(md, 'Metrics', 'N'), 'Goals')).toBe('B\n\n### Metrics\n\nN');
+});
+
+test('appending goes to the end of the body, before subsections', () => {
+  expect(appendToSection(brief, 'Goals', 'More')).toContain('## Goals\n\nA\n\nMore\n\n### Metrics');
+  expect(appendToSection(brief, 'Users', 'V')).toBe(brief.replace('U\n', 'U\n\nV\n'));
+});
+
+test('the document title is only written when asked for', () => {
+  expect(() => upsertSection(brief, 'Plant Pal', 'X')).toThrow('"Plant Pal" is the document title; replace the whole brief to change it');
+  expect(() => removeSection(brief, 'Plant Pal')).toThrow('document title');
+  expect(upsertSection(brief, 'Plant Pal', 'A plant care app.', 2, { allowTitle: true }))
+    .toBe(brief.replace('Keeps house plants alive.', 'A plant care app.'));
+});
+
+test('a missing heading is appended, or reported when removing', () => {
+  expect(upsertSection(brief, 'Budget', '$10k')).toBe(`${brief}\n## Budget\n\n$10k\n`);
+  expect(upsertSection(brief, '### Risks', 'Frost', 3)).toBe(`${brief}\n### Risks\n\nFrost\n`);
+  expect(() => removeSection(brief, 'Budget')).toThrow('Section "Budget" not found');
+  expect(removeSection(brief, 'Goals')).toBe('# Plant Pal\n\nKeeps house plants alive.\n\n## Users\n\nU\n');
+});
+
+test('heading levels outside 1-6 are rejected', () => {
+  for (const level of [0, 7, 2.5]) {
+    expect(() => upsertSection(brief, 'Budget', '$10k', level)).toThrow(`Heading level must be a whole number from 1 to 6, got ${level}`);
+  }
+});
+
+test('duplicate headings resolve to the first one', () => {
+  const md = '# App\n\n## Notes\n\nfirst\n\n## Notes\n\nsecond\n';
+  expect(findSection(md, 'notes')!.start).toBe(2);
+  expect(upsertSection(md, 'Notes', 'changed')).toBe('# App\n\n## Notes\n\nchanged\n\n## Notes\n\nsecond\n');
+});
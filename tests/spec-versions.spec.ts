@@ -0,0 +1,35 @@
+import { test, expect } from '@playwright/test';
+import { createRevision, diffLines, pushRevision } from '../spec-versions';
+
+const kinds = (before: string, after: string) => diffLines(before, after).map(d => `${d.type[0]} ${d.text}`);
+
+test('identical input diffs as unchanged lines', () => {
+  expect(kinds('# App\nGoals', '# App\nGoals')).toEqual(['s # App', 's Goals']);
+  expect(kinds('', '')).toEqual(['s ']);
+});
+
+test('inserted and deleted lines are reported in place', () => {
+  expect(kinds('a\nc', 'a\nb\nc')).toEqual(['s a', 'a b', 's c']);
+  expect(kinds('a\nb\nc', 'a\nc')).toEqual(['s a', 'r b', 's c']);
+  expect(kinds('a', 'a\nb\nc')).toEqual(['s a', 'a b', 'a c']);
+});
+
+test('a replaced line is removed, then added', () => {
+  expect(kinds('a\nb\nc', 'a\nx\nc')).toEqual(['s a', 'r b', 'a x', 's c']);
+  expect(kinds('old', 'new')).toEqual(['r old', 'a new']);
+});
+
+test('pushRevision skips unchanged content', () => {
+  const first = [createRevision('# App', 'initial')];
+  expect(pushRevision(first, createRevision('# App', 'tool', 'updateSpec'))).toBe(first);
+  expect(pushRevision(first, createRevision('# App v2', 'tool', 'updateSpec'))).toHaveLength(2);
+});
+
+test('trimming keeps the original revision and the newest ones', () => {
+  let revisions = [createRevision('v0', 'initial')];
+  for (let i = 1; i <= 250; i++) revisions = pushRevision(revisions, createRevision(`v${i}`, 'tool'));
+  expect(revisions).toHaveLength(200);
+  expect(revisions[0].content).toBe('v0');
+  expect(revisions[1].content).toBe('v52');
+  expect(revisions[199].content).toBe('v250');
+});
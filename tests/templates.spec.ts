@@ -0,0 +1,24 @@
+import { test, expect } from '@playwright/test';
+import { parseTemplate } from '../templates';
+
+const template = (extra: object = {}) => JSON.stringify({
+  name: 'Workshop', systemPrompt: 'Interview the client.', briefSkeleton: '# Brief', ...extra,
+});
+
+test('schema sections are checked one by one', () => {
+  const section = { heading: 'Goals', required: true, hint: 'What success looks like', aliases: ['Objectives'] };
+  expect(parseTemplate(template({ schema: { sections: [section] } })).schema?.sections).toEqual([section]);
+
+  expect(() => parseTemplate(template({ schema: { sections: [{ title: 'Goals' }] } })))
+    .toThrow('"schema" section 1 is missing "heading"');
+  expect(() => parseTemplate(template({ schema: { sections: [section, { ...section, required: 'yes' }] } })))
+    .toThrow('"schema" section 2 needs "required" to be true or false');
+  expect(() => parseTemplate(template({ schema: { sections: [{ ...section, fields: 'Budget' }] } })))
+    .toThrow('"schema" section 1 needs "fields" to be a list of strings');
+});
+
+test('tool lists must name known tools once', () => {
+  expect(parseTemplate(template({ tools: ['updateSpec', 'askFollowUpQuestions'] })).tools).toEqual(['updateSpec', 'askFollowUpQuestions']);
+  expect(() => parseTemplate(template({ tools: ['updateSpec', 'sketch'] }))).toThrow('Unknown tools: sketch.');
+  expect(() => parseTemplate(template({ tools: ['updateSpec', 'updateSpec'] }))).toThrow('Tools are listed more than once: updateSpec');
+});
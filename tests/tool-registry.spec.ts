@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test';
+import { validateArgs } from '../tool-registry';
+import { BRIEF_TOOLS, BriefToolContext, createBriefToolRegistry } from '../brief-tools';
+
+const briefContext = (spec: string) => {
+  const state = { spec, labels: [] as string[], highlighted: [] as string[], questions: [] as string[], tags: {} as Record<string, string> };
+  const ctx: BriefToolContext = {
+    getSpec: () => state.spec,
+    commitSpec: (content, label) => { state.spec = content; state.labels.push(label); },
+    highlight: heading => state.highlighted.push(heading),
+    mergeQuestions: texts => state.questions.push(...texts),
+    unansweredQuestions: () => state.questions,
+    tagImage: (id, tag, reason) => {
+      if (id !== 'ref-1') throw new Error(`No reference image "${id}"`);
+      state.tags[id] = `${tag}: ${reason}`;
+    },
+    gapReport: () => ({ coverage: '50%' }),
+  };
+  return { state, ctx };
+};
+
+test('validateArgs reports every problem with its path', () => {
+  const schema = {
+    type: 'OBJECT' as const,
+    properties: {
+      heading: { type: 'STRING' as const },
+      level: { type: 'INTEGER' as const },
+      qs: { type: 'ARRAY' as const, items: { type: 'STRING' as const } },
+      tone: { type: 'STRING' as const, enum: ['like', 'avoid'] },
+    },
+    required: ['heading'],
+  };
+  expect(validateArgs(schema, { heading: 'Goals', level: 2, qs: ['a'], tone: 'like' })).toEqual([]);
+  expect(validateArgs(schema, { level: 1.5, qs: ['a', 3], tone: 'meh' })).toEqual([
+    'args.heading is required',
+    'args.level must be an integer',
+    'args.qs[1] must be a string',
+    'args.tone must be one of like, avoid',
+  ]);
+  expect(validateArgs(schema, 'Goals')).toEqual(['args must be an object']);
+});
+
+test('unknown tools and bad arguments get an error response', () => {
+  const tools = createBriefToolRegistry();
+  const { state, ctx } = briefContext('# Plant Pal');
+
+  expect(tools.run({ id: '1', name: 'deleteEverything', args: {} }, ctx)).toEqual({
+    success: false,
+    error: 'Unknown tool "deleteEverything". Available tools: updateSpec, upsertSection, appendToSection, removeSection, askFollowUpQuestions, tagImage.',
+  });
+  expect(tools.run({ id: '2', name: 'upsertSection', args: { heading: 'Goals', content: 42 } }, ctx)).toEqual({
+    success: false,
+    error: 'Invalid arguments: args.content must be a string.',
+  });
+  expect(state.labels).toEqual([]);
+});
+
+test('handler failures become error responses', () => {
+  const { ctx } = briefContext('# Plant Pal');
+  const result = createBriefToolRegistry().run({ id: '1', name: 'removeSection', args: { heading: 'Budget' } }, ctx);
+  expect(result).toEqual({ success: false, error: 'Section "Budget" not found' });
+});
+
+test('brief tools change the spec and report the gaps', () => {
+  const tools = createBriefToolRegistry();
+  const { state, ctx } = briefContext('# Plant Pal');
+
+  expect(tools.run({ id: '1', name: 'upsertSection', args: { heading: 'Goals', content: 'Keep plants alive.' } }, ctx))
+    .toEqual({ success: true, heading: 'Goals', coverage: '50%' });
+  expect(tools.run({ id: '2', name: 'askFollowUpQuestions', args: { intro: 'Next', qs: ['Who waters?'] } }, ctx))
+    .toEqual({ success: true, stillUnanswered: ['Who waters?'], coverage: '50%' });
+
+  expect(state.spec).toContain('## Goals\n\nKeep plants alive.');
+  expect(state.labels).toEqual(['upsertSection: Goals']);
+  expect(state.highlighted).toEqual(['Goals']);
+});
+
+test('templates select tools by name', () => {
+  const tools = createBriefToolRegistry();
+  expect(tools.select(['askFollowUpQuestions', 'sketch']).declarations().map(d => d.name)).toEqual(['askFollowUpQuestions']);
+  expect(tools.select().names).toEqual(tools.names);
+  expect(tools.select(['updateSpec', 'updateSpec', 'removeSection']).names).toEqual(['updateSpec', 'removeSection']);
+  expect(() => tools.register(BRIEF_TOOLS[0])).toThrow('Tool "updateSpec" is already registered');
+});
+
+test('tagImage checks the tag and the image id', () => {
+  const tools = createBriefToolRegistry();
+  const { state, ctx } = briefContext('# Plant Pal');
+
+  expect(tools.run({ id: '1', name: 'tagImage', args: { id: 'ref-1', tag: 'love', reason: 'Calm' } }, ctx)).toEqual({
+    success: false,
+    error: 'Invalid arguments: args.tag must be one of like, avoid.',
+  });
+  expect(tools.run({ id: '2', name: 'tagImage', args: { id: 'ref-9', tag: 'like', reason: 'Calm' } }, ctx))
+    .toEqual({ success: false, error: 'No reference image "ref-9"' });
+  expect(tools.run({ id: '3', name: 'tagImage', args: { id: 'ref-1', tag: 'avoid', reason: 'Too busy' } }, ctx))
+    .toEqual({ success: true, id: 'ref-1', tag: 'avoid', coverage: '50%' });
+  expect(state.tags).toEqual({ 'ref-1': 'avoid: Too busy' });
+  expect(state.highlighted).toEqual(['Moodboard']);
+});
@@ -0,0 +1,62 @@
+import { test, expect } from '@playwright/test';
+import { continuesTurn, formatQuestionsMarkdown, formatTime, formatTranscriptMarkdown, mergeFragment } from '../transcript';
+import { Question, Turn } from '../types';
+
+const fragment = (id: string, role: Turn['role'], text: string, speaker?: string): Turn =>
+  ({ id, role, text, timestamp: 0, questionId: null, ...(speaker ? { speaker } : {}) });
+
+test('consecutive fragments from the same side merge into one turn', () => {
+  let history: Turn[] = [];
+  let open: Turn | null = null;
+  const add = (turn: Turn) => {
+    history = mergeFragment(history, open, turn);
+    if (!continuesTurn(open, turn)) open = turn;
+  };
+
+  add(fragment('1', 'user', 'We want'));
+  add(fragment('2', 'user', ' a plant app.'));
+  add(fragment('3', 'model', 'Who is it'));
+  add(fragment('4', 'model', ' for?'));
+  add(fragment('5', 'user', 'Busy people.'));
+
+  expect(history.map(t => [t.id, t.role, t.text])).toEqual([
+    ['1', 'user', 'We want a plant app.'],
+    ['3', 'model', 'Who is it for?'],
+    ['5', 'user', 'Busy people.'],
+  ]);
+});
+
+test('a new speaker or a closed turn starts a new turn', () => {
+  const dana = fragment('1', 'user', 'Mobile', 'Dana');
+  expect(continuesTurn(dana, fragment('2', 'user', ' first', 'Dana'))).toBe(true);
+  expect(continuesTurn(dana, fragment('2', 'user', 'Web', 'Sam'))).toBe(false);
+  expect(continuesTurn(null, fragment('2', 'user', 'Hi'))).toBe(false);
+
+  expect(mergeFragment([dana], dana, fragment('2', 'user', 'Web', 'Sam')).map(t => t.text)).toEqual(['Mobile', 'Web']);
+  expect(mergeFragment([dana], null, fragment('2', 'user', 'Again', 'Dana')).map(t => t.text)).toEqual(['Mobile', 'Again']);
+});
+
+test('the transcript renders as a markdown appendix', () => {
+  const questions: Question[] = [{ id: 'q1', text: 'Who is it for?', answered: true }];
+  const history = [
+    { ...fragment('1', 'model', 'Who is it for?'), timestamp: 1000 },
+    { ...fragment('2', 'user', '  Busy people. '), timestamp: 2000, questionId: 'q1' },
+    fragment('3', 'user', '   '),
+  ];
+  expect(formatTranscriptMarkdown(history, questions)).toBe([
+    '## Appendix: Conversation Transcript',
+    '',
+    `**[${formatTime(1000)}] Partner:** Who is it for?`,
+    '',
+    `**[${formatTime(2000)}] Client:** Busy people. _(re: Who is it for?)_`,
+  ].join('\n'));
+  expect(formatTranscriptMarkdown([], [])).toBe('## Appendix: Conversation Transcript\n\n_No transcript captured._');
+});
+
+test('questions render with their answers or as open', () => {
+  const questions: Question[] = [
+    { id: 'q1', text: 'Budget?', answered: true, answer: ' 40k ' },
+    { id: 'q2', text: 'Launch date?', answered: false },
+  ];
+  expect(formatQuestionsMarkdown(questions)).toBe('## Questions & Answers\n\n**Q: Budget?**\n\n40k\n\n**Q: Launch date?**\n\n_Open._');
+});
@@ -0,0 +1,21 @@
+import { test, expect } from '@playwright/test';
+import { DEFAULT_FRAME_RATE, FRAME_RATES, clampFrameRate, frameSize, videoContext } from '../video-streamer';
+
+test('frame rate is throttled to the offered range', () => {
+  expect(clampFrameRate(30)).toBe(FRAME_RATES[FRAME_RATES.length - 1]);
+  expect(clampFrameRate(0)).toBe(FRAME_RATES[0]);
+  expect(clampFrameRate(1)).toBe(1);
+  expect(clampFrameRate(NaN)).toBe(DEFAULT_FRAME_RATE);
+});
+
+test('frames are scaled down to fit, never up', () => {
+  expect(frameSize(2560, 1440)).toEqual({ width: 1024, height: 576 });
+  expect(frameSize(720, 1280)).toEqual({ width: 576, height: 1024 });
+  expect(frameSize(640, 480)).toEqual({ width: 640, height: 480 });
+  expect(frameSize(0, 0)).toEqual({ width: 1, height: 1 });
+});
+
+test('the model is told what is shared and when it stops', () => {
+  expect(videoContext('screen', true)).toContain('sharing their screen');
+  expect(videoContext('camera', false)).toMatch(/^\[Video stopped\].*their camera/);
+});
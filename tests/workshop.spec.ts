@@ -0,0 +1,48 @@
+import { test, expect } from '@playwright/test';
+import { CONFLICTS_HEADING, STAKEHOLDERS_HEADING, attributedText, createParticipant, duplicateNames, participantLabel, speakerContext, spokenTurnContext, workshopContext } from '../workshop';
+import { appendToSection, upsertSection } from '../spec-sections';
+import { formatTranscriptMarkdown, speakerLabel } from '../transcript';
+import { Turn } from '../types';
+
+test('participants need a name and are labelled with their role', () => {
+  expect(() => createParticipant('  ')).toThrow('A participant needs a name.');
+  const dana = createParticipant(' Dana ', ' CTO ');
+  expect(dana).toMatchObject({ name: 'Dana', role: 'CTO' });
+  expect(participantLabel(dana)).toBe('Dana (CTO)');
+  expect(participantLabel(createParticipant('Sam'))).toBe('Sam');
+});
+
+test('duplicate names are reported once, ignoring case', () => {
+  const people = ['Dana', 'Sam', 'sam', 'SAM', 'Lee'].map(n => createParticipant(n));
+  expect(duplicateNames(people)).toEqual(['Sam']);
+});
+
+test('workshop context lists the room and asks for attributed sections', () => {
+  const dana = createParticipant('Dana', 'CTO');
+  const sam = createParticipant('Sam', 'Head of Sales');
+  const text = workshopContext([dana, sam], sam);
+  expect(text).toContain('- Dana (CTO)\n- Sam (Head of Sales)');
+  expect(text).toContain('Sam is speaking now');
+  expect(text).toContain(STAKEHOLDERS_HEADING);
+  expect(text).toContain(CONFLICTS_HEADING);
+
+  expect(speakerContext(dana)).toMatch(/^\[Speaker\] Dana \(CTO\) is speaking now/);
+  expect(attributedText(sam, 'Budget is 40k')).toBe('[Sam] Budget is 40k');
+});
+
+test('spoken turns are labelled and stakeholder subsections survive section writes', () => {
+  const dana = createParticipant('Dana', 'CTO');
+  expect(spokenTurnContext(dana)).toBe('[Speaker] The client turn that just ended was spoken by Dana (CTO).');
+
+  let brief = `# Plant Pal\n\n## ${STAKEHOLDERS_HEADING}\n\nTwo stakeholders.\n\n### Dana\n\nMobile first.\n\n### Sam\n\nWeb first.\n`;
+  brief = upsertSection(brief, STAKEHOLDERS_HEADING, 'Dana and Sam disagree on the platform.');
+  brief = appendToSection(brief, 'Sam', 'Budget is 40k.');
+  expect(brief).toBe(`# Plant Pal\n\n## ${STAKEHOLDERS_HEADING}\n\nDana and Sam disagree on the platform.\n\n### Dana\n\nMobile first.\n\n### Sam\n\nWeb first.\n\nBudget is 40k.\n`);
+});
+
+test('transcript attributes client turns to the speaker', () => {
+  const turn = (role: Turn['role'], text: string, speaker?: string): Turn => ({ id: text, role, text, timestamp: 0, questionId: null, speaker });
+  const history = [turn('user', 'Mobile first', 'Dana'), turn('user', 'Web first', 'Sam'), turn('model', 'Noted'), turn('user', 'Hi')];
+  expect(history.map(speakerLabel)).toEqual(['Dana', 'Sam', 'Partner', 'Client']);
+  expect(formatTranscriptMarkdown(history, [])).toContain('Dana:** Mobile first');
+});
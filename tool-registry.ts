@@ -0,0 +1,100 @@
+import { FunctionCall, FunctionDeclaration, ToolSchema } from "./live-protocol";
+
+/**
+ * Tools the live model may call, declared in one place.
+ * - Each tool carries its declaration (name, description, parameter schema) and its handler.
+ * - Arguments are checked against the schema before the handler runs.
+ * - Every call gets a response: unknown tools, bad arguments and handler
+ *   failures come back as `{ success: false, error }` so the model can recover.
+ */
+
+export interface LiveTool<Ctx, Args = any> {
+    declaration: FunctionDeclaration;
+    /** Returns the response fields for a successful call; throw to report a failure. */
+    handle(args: Args, ctx: Ctx): Record<string, unknown>;
+}
+
+export type ToolResult = { success: true, [key: string]: unknown } | { success: false, error: string };
+
+/**
+ * Problems with `value` against `schema`, one readable line each; empty when valid.
+ */
+export function validateArgs(schema: ToolSchema, value: unknown, path = "args"): string[] {
+    switch (schema.type) {
+        case "OBJECT": {
+            if (typeof value !== "object" || value === null || Array.isArray(value)) return [`${path} must be an object`];
+            const obj = value as Record<string, unknown>;
+            const missing = (schema.required ?? []).filter(key => obj[key] === undefined || obj[key] === null).map(key => `${path}.${key} is required`);
+            const invalid = Object.entries(schema.properties ?? {})
+                .filter(([key]) => obj[key] !== undefined && obj[key] !== null)
+                .flatMap(([key, prop]) => validateArgs(prop, obj[key], `${path}.${key}`));
+            return [...missing, ...invalid];
+        }
+        case "ARRAY":
+            if (!Array.isArray(value)) return [`${path} must be a list`];
+            return schema.items ? value.flatMap((item, i) => validateArgs(schema.items!, item, `${path}[${i}]`)) : [];
+        case "STRING":
+            if (typeof value !== "string") return [`${path} must be a string`];
+            return schema.enum && !schema.enum.includes(value) ? [`${path} must be one of ${schema.enum.join(", ")}`] : [];
+        case "INTEGER":
+            return Number.isInteger(value) ? [] : [`${path} must be an integer`];
+        case "NUMBER":
+            return typeof value === "number" && Number.isFinite(value) ? [] : [`${path} must be a number`];
+        case "BOOLEAN":
+            return typeof value === "boolean" ? [] : [`${path} must be true or false`];
+    }
+}
+
+export class ToolRegistry<Ctx> {
+    private tools = new Map<string, LiveTool<Ctx>>();
+
+    constructor(tools: LiveTool<Ctx>[] = []) {
+        tools.forEach(t => this.register(t));
+    }
+
+    register(tool: LiveTool<Ctx>) {
+        const { name } = tool.declaration;
+        if (this.tools.has(name)) throw new Error(`Tool "${name}" is already registered`);
+        this.tools.set(name, tool);
+        return this;
+    }
+
+    get names() {
+        return [...this.tools.keys()];
+    }
+
+    has(name: string) {
+        return this.tools.has(name);
+    }
+
+    /**
+     * The tools a template offers; all of them when it names none. Unknown
+     * and repeated names are skipped, so a bad list cannot stop a session.
+     */
+    select(names?: string[]) {
+        if (!names) return new ToolRegistry<Ctx>([...this.tools.values()]);
+        const unique = [...new Set(names)];
+        const unknown = unique.filter(n => !this.tools.has(n));
+        if (unknown.length) console.warn(`Ignoring unknown tools: ${unknown.join(", ")}`);
+        return new ToolRegistry<Ctx>(unique.filter(n => this.tools.has(n)).map(n => this.tools.get(n)!));
+    }
+
+    declarations(): FunctionDeclaration[] {
+        return [...this.tools.values()].map(t => t.declaration);
+    }
+
+    run(call: FunctionCall, ctx: Ctx): ToolResult {
+        const tool = this.tools.get(call.name);
+        if (!tool) return { success: false, error: `Unknown tool "${call.name}". Available tools: ${this.names.join(", ")}.` };
+
+        const problems = tool.declaration.parameters ? validateArgs(tool.declaration.parameters, call.args) : [];
+        if (problems.length) return { success: false, error: `Invalid arguments: ${problems.join("; ")}.` };
+
+        try {
+            return { success: true, ...tool.handle(call.args, ctx) };
+        } catch (e: any) {
+            console.error(`Tool "${call.name}" failed`, e);
+            return { success: false, error: e?.message || "Tool failed" };
+        }
+    }
+}
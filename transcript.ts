@@ -0,0 +1,59 @@
+import { Question, Turn } from "./types";
+
+/**
+ * Formatting helpers for the captured conversation.
+ */
+
+export const speakerLabel = (turn: Turn) => turn.role === "user" ? turn.speaker || "Client" : "Partner";
+
+/** A fragment continues the open turn while the side and the workshop speaker stay the same. */
+export const continuesTurn = (open: Turn | null, fragment: Turn) =>
+    !!open && open.role === fragment.role && open.speaker === fragment.speaker;
+
+/**
+ * Adds a transcription fragment to the history: appended to the open turn
+ * when it continues it, otherwise as a new turn.
+ */
+export function mergeFragment(history: Turn[], open: Turn | null, fragment: Turn) {
+    if (!open || !continuesTurn(open, fragment)) return [...history, fragment];
+    return history.map(t => t.id === open.id ? { ...t, text: t.text + fragment.text } : t);
+}
+
+export function formatTime(ts: number) {
+    return new Date(ts).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+/**
+ * Renders the transcript as a markdown appendix for the exported brief.
+ */
+export function formatTranscriptMarkdown(history: Turn[], questions: Question[]) {
+    const lines = history
+        .filter(t => t.text.trim())
+        .map(t => {
+            const q = t.questionId ? questions.find(q => q.id === t.questionId) : null;
+            const context = q ? ` _(re: ${q.text})_` : "";
+            return `**[${formatTime(t.timestamp)}] ${speakerLabel(t)}:** ${t.text.trim()}${context}`;
+        });
+
+    return [
+        "## Appendix: Conversation Transcript",
+        "",
+        lines.length ? lines.join("\n\n") : "_No transcript captured._"
+    ].join("\n");
+}
+
+/**
+ * Renders the follow-up questions and their answers for the exported brief.
+ */
+export function formatQuestionsMarkdown(questions: Question[]) {
+    const items = questions.map(q => {
+        const answer = q.answered && q.answer?.trim() ? q.answer.trim() : q.answered ? "_Answered in conversation._" : "_Open._";
+        return `**Q: ${q.text.trim()}**\n\n${answer}`;
+    });
+
+    return [
+        "## Questions & Answers",
+        "",
+        items.length ? items.join("\n\n") : "_No follow-up questions._"
+    ].join("\n");
+}
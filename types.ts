@@ -0,0 +1,24 @@
+/**
+ * Shared shapes for the discovery session state.
+ */
+
+export interface Question {
+    id: string;
+    text: string;
+    answered: boolean;
+    answer?: string;
+    answeredAt?: number;
+    /** How the answer was given. */
+    answeredVia?: "text" | "voice";
+}
+
+export interface Turn {
+    id: string;
+    role: "user" | "model";
+    text: string;
+    timestamp: number;
+    /** Question card that was active while this turn was spoken or typed. */
+    questionId: string | null;
+    /** Workshop participant who said it (client turns in workshop mode only). */
+    speaker?: string;
+}
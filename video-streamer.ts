@@ -0,0 +1,142 @@
+/**
+ * Captures the client's screen or camera for Gemini Live.
+ * - Frames are JPEG stills grabbed from the stream on a timer, not a video
+ *   codec; the Live API reads about one frame per second.
+ * - The frame rate is throttled and frames identical to the last one sent are
+ *   skipped, so a static screen costs nothing.
+ * - Tracks are released on stop. Ending the share from the browser's own
+ *   controls stops the capture too.
+ */
+
+export type VideoSource = "screen" | "camera";
+
+export const VIDEO_SOURCE_LABELS: Record<VideoSource, string> = {
+    screen: "Screen",
+    camera: "Camera"
+};
+
+/** Frames per second the user can pick from. */
+export const FRAME_RATES = [0.5, 1, 2];
+export const DEFAULT_FRAME_RATE = 1;
+
+/** Longest side of a frame sent to the model. */
+const MAX_FRAME_SIDE = 1024;
+const JPEG_QUALITY = 0.7;
+
+export const clampFrameRate = (fps: number) =>
+    Number.isFinite(fps) ? Math.min(FRAME_RATES[FRAME_RATES.length - 1], Math.max(FRAME_RATES[0], fps)) : DEFAULT_FRAME_RATE;
+
+/**
+ * Frame dimensions for a source of the given size: scaled down to fit
+ * MAX_FRAME_SIDE, never up.
+ */
+export function frameSize(width: number, height: number, maxSide = MAX_FRAME_SIDE) {
+    const scale = Math.min(1, maxSide / Math.max(width, height, 1));
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+export const videoSupported = (source: VideoSource) =>
+    source === "screen" ? !!navigator.mediaDevices?.getDisplayMedia : !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * clientContent text that tells the model a share started or stopped.
+ */
+export function videoContext(source: VideoSource, active: boolean) {
+    const what = source === "screen" ? "their screen" : "their camera";
+    return active
+        ? `[Video shared] The client is now sharing ${what}; you receive it as still frames. Refer to what you see when it helps the interview, e.g. to ask about their current product.`
+        : `[Video stopped] The client stopped sharing ${what}. Do not describe it as if it were still visible.`;
+}
+
+export class VideoStreamer {
+    source: VideoSource | null = null;
+    stream: MediaStream | null = null;
+    frameRate = DEFAULT_FRAME_RATE;
+    /** Called when the browser ended the capture (e.g. its "Stop sharing" bar). */
+    onEnded: (() => void) | null = null;
+    private video: HTMLVideoElement | null = null;
+    private canvas: HTMLCanvasElement | null = null;
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private onFrame: ((b64: string) => void) | null = null;
+    private lastFrame = "";
+    /** Bumped by every start and stop, so a start that was overtaken drops its stream. */
+    private generation = 0;
+
+    async start(source: VideoSource, onFrame: (b64: string) => void) {
+        this.stop();
+        const generation = ++this.generation;
+        const stream = source === "screen"
+            ? await navigator.mediaDevices.getDisplayMedia({ video: { frameRate: 5 }, audio: false })
+            : await navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1280 }, height: { ideal: 720 } } });
+        if (generation !== this.generation) {
+            stream.getTracks().forEach(t => t.stop());
+            return;
+        }
+
+        const video = document.createElement("video");
+        video.muted = true;
+        video.playsInline = true;
+        video.srcObject = stream;
+        await video.play();
+        if (generation !== this.generation) {
+            stream.getTracks().forEach(t => t.stop());
+            return;
+        }
+
+        stream.getVideoTracks()[0]?.addEventListener("ended", () => {
+            if (this.stream !== stream) return;
+            this.stop();
+            this.onEnded?.();
+        });
+
+        this.source = source;
+        this.stream = stream;
+        this.video = video;
+        this.canvas = document.createElement("canvas");
+        this.onFrame = onFrame;
+        this.lastFrame = "";
+        this.schedule();
+    }
+
+    /** Changes the throttle, taking effect immediately when capturing. */
+    setFrameRate(fps: number) {
+        this.frameRate = clampFrameRate(fps);
+        if (this.timer) this.schedule();
+    }
+
+    private schedule() {
+        if (this.timer) clearInterval(this.timer);
+        this.capture();
+        this.timer = setInterval(() => this.capture(), 1000 / this.frameRate);
+    }
+
+    private capture() {
+        const video = this.video;
+        const canvas = this.canvas;
+        if (!video || !canvas || !video.videoWidth) return;
+
+        const { width, height } = frameSize(video.videoWidth, video.videoHeight);
+        canvas.width = width;
+        canvas.height = height;
+        canvas.getContext("2d")!.drawImage(video, 0, 0, width, height);
+        const dataUrl = canvas.toDataURL("image/jpeg", JPEG_QUALITY);
+        // Nothing moved since the last frame
+        if (dataUrl === this.lastFrame) return;
+        this.lastFrame = dataUrl;
+        this.onFrame?.(dataUrl.slice(dataUrl.indexOf(",") + 1));
+    }
+
+    stop() {
+        this.generation++;
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+        // Releasing the tracks turns off the browser's sharing indicator
+        this.stream?.getTracks().forEach(t => t.stop());
+        if (this.video) this.video.srcObject = null;
+        this.stream = null;
+        this.video = null;
+        this.canvas = null;
+        this.onFrame = null;
+        this.source = null;
+    }
+}
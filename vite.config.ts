@@ -4,6 +4,8 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With a backend proxy configured the key must never be inlined into the bundle
+    const browserKey = env.LIVE_PROXY_URL ? '' : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
@@ -11,8 +13,12 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(browserKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(browserKey),
+        'process.env.LIVE_ENDPOINT': JSON.stringify(env.LIVE_ENDPOINT),
+        // ?liveEndpoint= exists for offline tests against the mock server; production builds ignore it
+        'process.env.ALLOW_LIVE_ENDPOINT_OVERRIDE': JSON.stringify(String(mode === 'development')),
+        'process.env.LIVE_PROXY_URL': JSON.stringify(env.LIVE_PROXY_URL)
       },
       resolve: {
         alias: {
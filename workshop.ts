@@ -0,0 +1,69 @@
+/**
+ * Workshop mode: several stakeholders in one discovery session.
+ * - Participants are registered up front; one of them is the current speaker,
+ *   switched by the facilitator with a tap.
+ * - Client turns are attributed to the current speaker in the transcript, and
+ *   the model is told who is speaking (on every switch, as each spoken turn
+ *   ends and in typed turns).
+ * - The model keeps per-stakeholder perspectives and conflicting requirements
+ *   in the brief.
+ */
+
+export interface Participant {
+    id: string;
+    name: string;
+    /** Job title or stake in the project, e.g. "Head of Sales". */
+    role: string;
+}
+
+export const STAKEHOLDERS_HEADING = "Stakeholder Perspectives";
+export const CONFLICTS_HEADING = "Conflicting Requirements";
+
+export function createParticipant(name: string, role = ""): Participant {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error("A participant needs a name.");
+    return { id: Math.random().toString(36).slice(2), name: trimmed, role: role.trim() };
+}
+
+export const participantLabel = (p: Participant) => p.role ? `${p.name} (${p.role})` : p.name;
+
+/**
+ * Names that appear twice, which would make attribution ambiguous.
+ */
+export function duplicateNames(participants: Participant[]) {
+    // Keyed case-insensitively, reported as first spelled
+    const seen = new Map<string, string>();
+    const duplicates = new Set<string>();
+    participants.forEach(p => {
+        const key = p.name.trim().toLowerCase();
+        if (seen.has(key)) duplicates.add(seen.get(key)!);
+        else seen.set(key, p.name.trim());
+    });
+    return [...duplicates];
+}
+
+/**
+ * clientContent text that starts (or updates) workshop mode for the model:
+ * who is in the room, who speaks now, and how to attribute the brief.
+ */
+export function workshopContext(participants: Participant[], speaker: Participant | null) {
+    return [
+        "[Workshop] Several stakeholders are taking part in this session:",
+        ...participants.map(p => `- ${participantLabel(p)}`),
+        speaker ? `${speaker.name} is speaking now. You are told whenever the speaker changes and who spoke each turn; typed messages start with the speaker's name in brackets.` : "",
+        "Address people by name and make sure every stakeholder gets asked about their priorities.",
+        `Keep a "${STAKEHOLDERS_HEADING}" section in the brief with one "### <name>" subsection per stakeholder listing what they asked for, decided or ruled out.`,
+        `Keep a "${CONFLICTS_HEADING}" section listing where stakeholders disagree, naming each side, and ask the group to resolve them.`,
+        "In the other sections, note who made a decision, e.g. \"(decided by Dana)\"."
+    ].filter(Boolean).join("\n");
+}
+
+export const speakerContext = (speaker: Participant) =>
+    `[Speaker] ${participantLabel(speaker)} is speaking now. Attribute what follows to them until told otherwise.`;
+
+/** Sent as a spoken turn ends, since audio itself carries no name. */
+export const spokenTurnContext = (speaker: Participant) =>
+    `[Speaker] The client turn that just ended was spoken by ${participantLabel(speaker)}.`;
+
+/** A typed turn, labelled with who typed it. */
+export const attributedText = (speaker: Participant, text: string) => `[${speaker.name}] ${text}`;